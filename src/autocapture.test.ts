@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { installAutocapture } from './autocapture'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import { createMemoryExporter } from './test-utils'
+
+describe('autocapture', () => {
+  let uninstall: () => void = () => {}
+  const onEvent = vi.fn()
+
+  const mount = (html: string): void => {
+    document.body.innerHTML = html
+  }
+
+  const change = (element: Element | null): void => {
+    element?.dispatchEvent(new Event('change', { bubbles: true }))
+  }
+
+  beforeEach(() => {
+    onEvent.mockClear()
+  })
+
+  afterEach(() => {
+    uninstall()
+    document.body.innerHTML = ''
+  })
+
+  describe('clicks', () => {
+    it('describes the clicked element with data-track attributes', () => {
+      uninstall = installAutocapture(onEvent)
+      mount(`
+        <main id="pricing">
+          <div><span>Free</span></div>
+          <div>
+            <button data-track="upgrade" data-track-plan="pro" data-track-billing-cycle="yearly">
+              <span>Upgrade  now</span>
+            </button>
+          </div>
+        </main>
+      `)
+
+      document.querySelector<HTMLElement>('button span')?.click()
+
+      expect(onEvent).toHaveBeenCalledWith('element_click', {
+        plan: 'pro',
+        billingCycle: 'yearly',
+        trackId: 'upgrade',
+        tag: 'button',
+        role: 'button',
+        name: 'Upgrade now',
+        selector: '[data-track="upgrade"]',
+        href: undefined,
+      })
+    })
+
+    it('builds a selector path and prefers ARIA names', () => {
+      uninstall = installAutocapture(onEvent)
+      mount(`
+        <nav id="menu">
+          <ul>
+            <li><a href="/home">Home</a></li>
+            <li><a href="/settings" aria-label="Account settings">⚙</a></li>
+          </ul>
+        </nav>
+      `)
+
+      // jsdom cannot navigate
+      document.addEventListener('click', (event) => event.preventDefault(), { once: true })
+      document.querySelector<HTMLElement>('a[href="/settings"]')?.click()
+
+      expect(onEvent).toHaveBeenCalledWith(
+        'element_click',
+        expect.objectContaining({
+          role: 'link',
+          name: 'Account settings',
+          selector: '#menu > ul > li:nth-of-type(2) > a',
+          href: '/settings',
+        })
+      )
+    })
+
+    it('ignores non-interactive elements, fields and data-track-ignore subtrees', () => {
+      uninstall = installAutocapture(onEvent)
+      mount(`
+        <p>Plain text</p>
+        <input type="text" />
+        <div data-track-ignore><button>Secret</button></div>
+      `)
+
+      document.querySelector<HTMLElement>('p')?.click()
+      document.querySelector<HTMLElement>('input')?.click()
+      document.querySelector<HTMLElement>('button')?.click()
+
+      expect(onEvent).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('forms', () => {
+    it('reports submits without field values', () => {
+      uninstall = installAutocapture(onEvent)
+      mount(`
+        <form name="signup" method="POST" action="/signup">
+          <input name="email" value="jane@example.com" />
+          <button type="submit">Sign up</button>
+        </form>
+      `)
+
+      document.querySelector('form')?.dispatchEvent(new Event('submit', { bubbles: true }))
+
+      expect(onEvent).toHaveBeenCalledWith('form_submit', {
+        trackId: undefined,
+        tag: 'form',
+        role: 'form',
+        name: 'signup',
+        selector: 'body > form',
+        method: 'post',
+        action: '/signup',
+        fields: 2,
+      })
+    })
+
+    it('masks changed values by default', () => {
+      uninstall = installAutocapture(onEvent)
+      mount(`
+        <label for="email">Email address</label>
+        <input id="email" type="email" value="jane@example.com" />
+        <input type="checkbox" aria-label="Subscribe" checked />
+      `)
+
+      change(document.querySelector('#email'))
+      change(document.querySelector('input[type=checkbox]'))
+
+      expect(onEvent).toHaveBeenNthCalledWith(
+        1,
+        'input_change',
+        expect.objectContaining({ name: 'Email address', role: 'textbox', value: '[MASKED]' })
+      )
+      expect(onEvent).toHaveBeenNthCalledWith(
+        2,
+        'input_change',
+        expect.objectContaining({ role: 'checkbox', name: 'Subscribe', checked: true })
+      )
+    })
+
+    it('captures values when masking is disabled, except passwords', () => {
+      uninstall = installAutocapture(onEvent, { maskInputValues: false })
+      mount(`
+        <select aria-label="Country"><option value="nz" selected>New Zealand</option></select>
+        <input type="password" placeholder="Password" value="hunter2" />
+      `)
+
+      change(document.querySelector('select'))
+      change(document.querySelector('input'))
+
+      expect(onEvent.mock.calls.map(([, properties]) => properties.value)).toEqual([
+        'nz',
+        '[MASKED]',
+      ])
+    })
+  })
+
+  it('only listens for the enabled interactions', () => {
+    uninstall = installAutocapture(onEvent, { clicks: false, changes: false })
+    mount('<form><input value="x" /><button type="button">Go</button></form>')
+
+    document.querySelector<HTMLElement>('button')?.dispatchEvent(new MouseEvent('click'))
+    change(document.querySelector('input'))
+    document.querySelector('form')?.dispatchEvent(new Event('submit', { bubbles: true }))
+
+    expect(onEvent.mock.calls.map(([name]) => name)).toEqual(['form_submit'])
+  })
+
+  it('emits events through createObservability and stops on cleanup', async () => {
+    vi.useFakeTimers()
+    resetSessionCache()
+    sessionStorage.clear()
+    const { events: exported, exporter } = createMemoryExporter()
+    const obs = createObservability({ batchSize: 100, exporters: [exporter], autocapture: true })
+    mount('<button data-track="save">Save</button>')
+
+    document.querySelector<HTMLElement>('button')?.click()
+    obs.flush()
+    await vi.runAllTimersAsync()
+    obs.cleanup()
+    document.querySelector<HTMLElement>('button')?.click()
+    vi.useRealTimers()
+
+    expect(exported.filter((event) => event.name === 'element_click')).toHaveLength(1)
+    expect(exported[0]?.properties).toMatchObject({ trackId: 'save', name: 'Save' })
+  })
+})
@@ -0,0 +1,291 @@
+/**
+ * Autocapture
+ *
+ * Opt-in document-level capture of clicks, form submits and input changes.
+ * Each event carries a stable element descriptor (`data-track` ID, role,
+ * accessible name, CSS selector path) plus any `data-track-*` attributes.
+ * Elements inside `[data-track-ignore]` are skipped, and input values are
+ * masked unless explicitly allowed.
+ */
+
+import type { AutocaptureConfig } from './types'
+
+const INTERACTIVE_SELECTOR = [
+  'a',
+  'button',
+  'input',
+  'select',
+  'textarea',
+  'summary',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="tab"]',
+  '[role="menuitem"]',
+  '[role="checkbox"]',
+  '[role="switch"]',
+  '[data-track]',
+].join(',')
+
+// Fields are reported when they change; clicking into one says little
+const FIELD_SELECTOR =
+  'input:not([type=button],[type=submit],[type=reset],[type=image]), select, textarea'
+
+const MAX_NAME_LENGTH = 100
+const MAX_SELECTOR_DEPTH = 5
+const MASKED_VALUE = '[MASKED]'
+
+// Input types whose values are never captured, even with masking disabled
+const SENSITIVE_INPUT_TYPES = new Set(['password', 'hidden'])
+
+export type AutocaptureHandler = (name: string, properties: Record<string, unknown>) => void
+
+function truncate(value: string): string {
+  return value.length > MAX_NAME_LENGTH ? `${value.slice(0, MAX_NAME_LENGTH)}…` : value
+}
+
+function collapseWhitespace(value: string | null | undefined): string {
+  return (value ?? '').trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * Explicit `role`, or the implicit role of common interactive elements.
+ */
+function roleOf(element: Element): string | undefined {
+  const explicit = element.getAttribute('role')
+  if (explicit) {
+    return explicit
+  }
+
+  switch (element.tagName) {
+    case 'A':
+      return element.hasAttribute('href') ? 'link' : undefined
+    case 'BUTTON':
+    case 'SUMMARY':
+      return 'button'
+    case 'SELECT':
+      return 'combobox'
+    case 'TEXTAREA':
+      return 'textbox'
+    case 'FORM':
+      return 'form'
+    case 'INPUT': {
+      const type = (element as HTMLInputElement).type
+      if (type === 'checkbox' || type === 'radio') {
+        return type
+      }
+      return ['button', 'submit', 'reset', 'image'].includes(type) ? 'button' : 'textbox'
+    }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Accessible name, approximating the browser's computation: ARIA labels, then
+ * associated labels and descriptive attributes, then text content. Fields
+ * never fall back to their content, which would be the user's input.
+ */
+function accessibleNameOf(element: Element): string | undefined {
+  const label = element.getAttribute('aria-label')
+  if (label) {
+    return truncate(collapseWhitespace(label))
+  }
+
+  const labelledBy = element.getAttribute('aria-labelledby')
+  if (labelledBy) {
+    const text = labelledBy
+      .split(/\s+/)
+      .map((id) => element.ownerDocument.getElementById(id)?.textContent)
+      .join(' ')
+    if (collapseWhitespace(text)) {
+      return truncate(collapseWhitespace(text))
+    }
+  }
+
+  // A form's text is its whole content; only its own name describes it
+  if (element instanceof HTMLFormElement) {
+    return element.getAttribute('name') ?? undefined
+  }
+
+  const isField =
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLSelectElement ||
+    element instanceof HTMLTextAreaElement
+  if (isField) {
+    const fieldLabel = element.labels?.[0]?.textContent
+    const name =
+      collapseWhitespace(fieldLabel) ||
+      element.getAttribute('placeholder') ||
+      element.getAttribute('title') ||
+      (element instanceof HTMLInputElement && ['button', 'submit', 'reset'].includes(element.type)
+        ? element.value
+        : '')
+    return name ? truncate(name) : undefined
+  }
+
+  const text =
+    element.getAttribute('title') ||
+    element.getAttribute('alt') ||
+    collapseWhitespace(element.textContent)
+  return text ? truncate(text) : undefined
+}
+
+/**
+ * CSS selector path from the nearest ancestor with an ID (or `data-track`),
+ * e.g. `#checkout > div:nth-of-type(2) > button`.
+ */
+function selectorOf(element: Element): string {
+  const parts: string[] = []
+  let current: Element | null = element
+
+  while (current && parts.length < MAX_SELECTOR_DEPTH && current.tagName !== 'HTML') {
+    if (current.id) {
+      parts.unshift(`#${current.id}`)
+      break
+    }
+    const trackId = current.getAttribute('data-track')
+    if (trackId) {
+      parts.unshift(`[data-track="${trackId}"]`)
+      break
+    }
+
+    let part = current.tagName.toLowerCase()
+    const parent: Element | null = current.parentElement
+    if (parent) {
+      const tagName = current.tagName
+      const siblings = [...parent.children].filter((sibling) => sibling.tagName === tagName)
+      if (siblings.length > 1) {
+        part += `:nth-of-type(${siblings.indexOf(current) + 1})`
+      }
+    }
+    parts.unshift(part)
+    current = parent
+  }
+
+  return parts.join(' > ')
+}
+
+/**
+ * `data-track-*` attributes as properties: `data-track-plan="pro"` becomes `{ plan: 'pro' }`.
+ */
+function trackAttributesOf(element: HTMLElement | SVGElement): Record<string, string> {
+  const properties: Record<string, string> = {}
+  for (const [key, value] of Object.entries(element.dataset)) {
+    if (key.startsWith('track') && key.length > 'track'.length && key !== 'trackIgnore') {
+      const name = key.slice('track'.length)
+      properties[name.charAt(0).toLowerCase() + name.slice(1)] = value ?? ''
+    }
+  }
+  return properties
+}
+
+function describeElement(element: Element): Record<string, unknown> {
+  const attributes =
+    element instanceof HTMLElement || element instanceof SVGElement
+      ? trackAttributesOf(element)
+      : {}
+  return {
+    ...attributes,
+    trackId: element.getAttribute('data-track') ?? undefined,
+    tag: element.tagName.toLowerCase(),
+    role: roleOf(element),
+    name: accessibleNameOf(element),
+    selector: selectorOf(element),
+  }
+}
+
+/**
+ * Whether an element sits in a `[data-track-ignore]` subtree, which no capture records.
+ */
+export function isIgnored(element: Element): boolean {
+  return element.closest('[data-track-ignore]') !== null
+}
+
+/**
+ * Listen for clicks, submits and changes on the document and report them
+ * through `onEvent`. Returns a function that removes the listeners.
+ */
+export function installAutocapture(
+  onEvent: AutocaptureHandler,
+  config: AutocaptureConfig = {}
+): () => void {
+  if (typeof document === 'undefined') {
+    return () => {}
+  }
+
+  const maskInputValues = config.maskInputValues ?? true
+  const listeners: Array<[string, (event: Event) => void]> = []
+
+  if (config.clicks ?? true) {
+    listeners.push([
+      'click',
+      (event) => {
+        const target = event.target instanceof Element ? event.target : null
+        const element = target?.closest(INTERACTIVE_SELECTOR)
+        if (!element || isIgnored(element) || element.matches(FIELD_SELECTOR)) {
+          return
+        }
+        const href = element instanceof HTMLAnchorElement ? element.getAttribute('href') : null
+        onEvent('element_click', { ...describeElement(element), href: href ?? undefined })
+      },
+    ])
+  }
+
+  if (config.submits ?? true) {
+    listeners.push([
+      'submit',
+      (event) => {
+        const form = event.target
+        if (!(form instanceof HTMLFormElement) || isIgnored(form)) {
+          return
+        }
+        onEvent('form_submit', {
+          ...describeElement(form),
+          method: (form.getAttribute('method') ?? 'get').toLowerCase(),
+          action: form.getAttribute('action') ?? undefined,
+          fields: form.elements.length,
+        })
+      },
+    ])
+  }
+
+  if (config.changes ?? true) {
+    listeners.push([
+      'change',
+      (event) => {
+        const field = event.target
+        const isField =
+          field instanceof HTMLInputElement ||
+          field instanceof HTMLSelectElement ||
+          field instanceof HTMLTextAreaElement
+        if (!isField || isIgnored(field)) {
+          return
+        }
+
+        const properties: Record<string, unknown> = describeElement(field)
+        if (field instanceof HTMLInputElement && ['checkbox', 'radio'].includes(field.type)) {
+          properties.checked = field.checked
+        } else if (
+          maskInputValues ||
+          (field instanceof HTMLInputElement && SENSITIVE_INPUT_TYPES.has(field.type))
+        ) {
+          properties.value = field.value ? MASKED_VALUE : ''
+        } else {
+          properties.value = field.value
+        }
+        onEvent('input_change', properties)
+      },
+    ])
+  }
+
+  // Capture phase, so events the app stops from propagating are still seen
+  for (const [type, listener] of listeners) {
+    document.addEventListener(type, listener, true)
+  }
+
+  return () => {
+    for (const [type, listener] of listeners) {
+      document.removeEventListener(type, listener, true)
+    }
+  }
+}
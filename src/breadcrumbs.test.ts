@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createBreadcrumbTrail, installBreadcrumbCapture } from './breadcrumbs'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import { createMemoryExporter } from './test-utils'
+
+describe('breadcrumbs', () => {
+  describe('createBreadcrumbTrail', () => {
+    it('keeps the most recent breadcrumbs, oldest first', () => {
+      const trail = createBreadcrumbTrail({ maxBreadcrumbs: 3 })
+
+      for (const message of ['a', 'b', 'c', 'd', 'e']) {
+        trail.add({ category: 'manual', message })
+      }
+
+      expect(trail.get().map((breadcrumb) => breadcrumb.message)).toEqual(['c', 'd', 'e'])
+      expect(trail.get()[0]?.timestamp).toBeTypeOf('number')
+    })
+
+    it('records only the configured categories', () => {
+      const trail = createBreadcrumbTrail({ categories: ['navigation'] })
+
+      trail.add({ category: 'navigation', message: '/home' })
+      trail.add({ category: 'console', message: 'hello' })
+
+      expect(trail.get().map((breadcrumb) => breadcrumb.category)).toEqual(['navigation'])
+      expect(trail.accepts('console')).toBe(false)
+    })
+
+    it('truncates long messages and clears', () => {
+      const trail = createBreadcrumbTrail()
+
+      trail.add({ category: 'manual', message: 'x'.repeat(500) })
+      expect(trail.get()[0]?.message).toHaveLength(201)
+
+      trail.clear()
+      expect(trail.get()).toEqual([])
+    })
+
+    it('records nothing while recording is off', () => {
+      let recording = false
+      const trail = createBreadcrumbTrail({}, () => recording)
+
+      trail.add({ category: 'manual', message: 'before' })
+      recording = true
+      trail.add({ category: 'manual', message: 'after' })
+
+      expect(trail.get().map((breadcrumb) => breadcrumb.message)).toEqual(['after'])
+    })
+  })
+
+  describe('installBreadcrumbCapture', () => {
+    const originalFetch = globalThis.fetch
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch
+      vi.restoreAllMocks()
+    })
+
+    it('records clicks with a short element description', () => {
+      const trail = createBreadcrumbTrail()
+      const uninstall = installBreadcrumbCapture(trail, { excludeUrls: [] })
+      const button = document.createElement('button')
+      button.id = 'save'
+      button.className = 'btn primary large'
+      button.textContent = '  Save   changes '
+      document.body.appendChild(button)
+
+      button.click()
+      uninstall()
+      button.click()
+      button.remove()
+
+      expect(trail.get()).toEqual([
+        expect.objectContaining({
+          category: 'click',
+          message: 'button#save.btn.primary',
+          data: { text: 'Save changes' },
+        }),
+      ])
+    })
+
+    it('skips clicks inside data-track-ignore subtrees', () => {
+      const trail = createBreadcrumbTrail()
+      const uninstall = installBreadcrumbCapture(trail, { excludeUrls: [] })
+      document.body.innerHTML = '<div data-track-ignore><button>Reveal card number</button></div>'
+
+      document.querySelector('button')?.click()
+      uninstall()
+      document.body.innerHTML = ''
+
+      expect(trail.get()).toEqual([])
+    })
+
+    it('records fetch calls except to excluded URLs', async () => {
+      globalThis.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(new Response(null, { status: 404 }))
+        .mockResolvedValueOnce(new Response(null, { status: 200 }))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch')) as typeof fetch
+      const trail = createBreadcrumbTrail()
+      const uninstall = installBreadcrumbCapture(trail, { excludeUrls: ['/api/telemetry'] })
+
+      await fetch('/api/users', { method: 'post' })
+      await fetch('/api/telemetry')
+      await expect(fetch('https://example.com/down')).rejects.toThrow('Failed to fetch')
+      uninstall()
+
+      expect(trail.get()).toEqual([
+        expect.objectContaining({
+          category: 'fetch',
+          message: `POST ${window.location.origin}/api/users`,
+          level: 'warning',
+          data: expect.objectContaining({ method: 'POST', status: 404 }),
+        }),
+        expect.objectContaining({
+          message: 'GET https://example.com/down',
+          level: 'error',
+          data: expect.objectContaining({ error: 'TypeError: Failed to fetch' }),
+        }),
+      ])
+    })
+
+    it('records console messages but not the library logs', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const trail = createBreadcrumbTrail({ categories: ['console'] })
+      const uninstall = installBreadcrumbCapture(trail, { excludeUrls: [] })
+
+      console.warn('Cart is empty', { items: 0 })
+      console.warn('[Observability] internal')
+      uninstall()
+
+      expect(console.warn).toBe(warn)
+      expect(warn).toHaveBeenCalledTimes(2)
+      expect(trail.get()).toEqual([
+        expect.objectContaining({
+          category: 'console',
+          message: 'Cart is empty {"items":0}',
+          level: 'warning',
+        }),
+      ])
+    })
+  })
+
+  describe('createObservability', () => {
+    const { events: exported, exporter } = createMemoryExporter()
+
+    beforeEach(() => {
+      exported.length = 0
+      resetSessionCache()
+      sessionStorage.clear()
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
+    it('attaches the trail to errors', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        breadcrumbs: { categories: ['event', 'navigation', 'manual', 'error'] },
+      })
+
+      obs.trackPageView('/cart')
+      obs.trackEvent('checkout_started', { items: 2 })
+      obs.addBreadcrumb({ message: 'Applied coupon', data: { code: 'SAVE10' } })
+      obs.captureException(new Error('Payment failed'))
+      obs.trackError('retry', new Error('Payment failed again'))
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      const [first, second] = exported.filter((event) => event.type === 'error')
+      expect(first?.properties?.breadcrumbs).toEqual([
+        expect.objectContaining({ category: 'navigation', message: '/cart' }),
+        expect.objectContaining({
+          category: 'event',
+          message: 'checkout_started',
+          data: { items: 2 },
+        }),
+        expect.objectContaining({
+          category: 'manual',
+          message: 'Applied coupon',
+          data: { code: 'SAVE10' },
+        }),
+      ])
+      expect(second?.properties?.breadcrumbs).toContainEqual(
+        expect.objectContaining({
+          category: 'error',
+          message: 'exception: Payment failed',
+          level: 'error',
+        })
+      )
+
+      obs.cleanup()
+    })
+
+    it('records only with analytics consent and clears the trail on revoke', async () => {
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        breadcrumbs: true,
+        consent: { initial: { errors: true } },
+      })
+
+      obs.addBreadcrumb({ message: 'before consent' })
+      obs.setConsent({ analytics: true })
+      obs.addBreadcrumb({ message: 'with consent' })
+      obs.trackError('first', new Error('boom'))
+      obs.setConsent({ analytics: false })
+      obs.trackError('second', new Error('boom'))
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      const [first, second] = exported.filter((event) => event.type === 'error')
+      expect(first?.properties?.breadcrumbs).toEqual([
+        expect.objectContaining({ message: 'with consent' }),
+      ])
+      expect(second?.properties).not.toHaveProperty('breadcrumbs')
+
+      obs.cleanup()
+    })
+
+    it('leaves errors untouched when breadcrumbs are disabled', async () => {
+      const obs = createObservability({ batchSize: 100, exporters: [exporter] })
+
+      obs.trackEvent('clicked')
+      obs.addBreadcrumb({ message: 'ignored' })
+      obs.trackError('failure', new Error('boom'))
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      const error = exported.find((event) => event.type === 'error')
+      expect(error?.properties).not.toHaveProperty('breadcrumbs')
+
+      obs.cleanup()
+    })
+  })
+})
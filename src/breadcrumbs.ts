@@ -0,0 +1,216 @@
+/**
+ * Breadcrumbs
+ *
+ * A bounded trail of what happened before an error: tracked events, page
+ * views, clicks, fetch calls and console messages, plus manual entries.
+ * The trail is attached to every error event so a report shows the steps
+ * that led to it.
+ */
+
+import { isIgnored } from './autocapture'
+import type { Breadcrumb, BreadcrumbCategory, BreadcrumbConfig, BreadcrumbLevel } from './types'
+import { matchesUrl, resolveUrl, type UrlPattern } from './url'
+
+const DEFAULT_MAX_BREADCRUMBS = 50
+const MAX_MESSAGE_LENGTH = 200
+
+const ALL_CATEGORIES: BreadcrumbCategory[] = [
+  'event',
+  'navigation',
+  'click',
+  'fetch',
+  'console',
+  'error',
+  'manual',
+]
+
+type ConsoleMethod = 'debug' | 'log' | 'info' | 'warn' | 'error'
+
+const CONSOLE_LEVELS: Record<ConsoleMethod, BreadcrumbLevel> = {
+  debug: 'debug',
+  log: 'info',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+}
+
+export interface BreadcrumbTrail {
+  /** Whether breadcrumbs of a category are recorded */
+  accepts: (category: BreadcrumbCategory) => boolean
+  add: (breadcrumb: Omit<Breadcrumb, 'timestamp'>) => void
+  /** Breadcrumbs oldest first */
+  get: () => Breadcrumb[]
+  clear: () => void
+}
+
+export interface BreadcrumbCaptureOptions {
+  /** URLs whose fetch calls are never recorded (the library's own endpoints) */
+  excludeUrls: UrlPattern[]
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_MESSAGE_LENGTH ? `${value.slice(0, MAX_MESSAGE_LENGTH)}…` : value
+}
+
+function formatArgument(value: unknown): string {
+  if (typeof value === 'string') {
+    return value
+  }
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`
+  }
+  try {
+    return JSON.stringify(value) ?? String(value)
+  } catch {
+    return String(value)
+  }
+}
+
+/**
+ * Short CSS-like description of a clicked element, e.g. `button#save.primary`.
+ */
+function describeElement(element: Element): string {
+  const id = element.id ? `#${element.id}` : ''
+  const classes = [...element.classList]
+    .slice(0, 2)
+    .map((name) => `.${name}`)
+    .join('')
+  return `${element.tagName.toLowerCase()}${id}${classes}`
+}
+
+/**
+ * Create a breadcrumb ring buffer keeping the most recent `maxBreadcrumbs`.
+ * Nothing is recorded while `isRecording` returns false (e.g. without consent).
+ */
+export function createBreadcrumbTrail(
+  config: BreadcrumbConfig = {},
+  isRecording: () => boolean = () => true
+): BreadcrumbTrail {
+  const capacity = Math.max(config.maxBreadcrumbs ?? DEFAULT_MAX_BREADCRUMBS, 0)
+  const categories = new Set(config.categories ?? ALL_CATEGORIES)
+  let buffer: Breadcrumb[] = []
+  let next = 0
+
+  return {
+    accepts: (category) => capacity > 0 && categories.has(category),
+
+    add(breadcrumb) {
+      if (capacity === 0 || !categories.has(breadcrumb.category) || !isRecording()) {
+        return
+      }
+      const entry = { ...breadcrumb, message: truncate(breadcrumb.message), timestamp: Date.now() }
+      if (buffer.length < capacity) {
+        buffer.push(entry)
+      } else {
+        buffer[next] = entry
+      }
+      next = (next + 1) % capacity
+    },
+
+    get() {
+      return buffer.length < capacity
+        ? [...buffer]
+        : [...buffer.slice(next), ...buffer.slice(0, next)]
+    },
+
+    clear() {
+      buffer = []
+      next = 0
+    },
+  }
+}
+
+/**
+ * Record clicks, fetch calls and console messages into the trail, for the
+ * categories it accepts. Returns a function that removes the listeners and
+ * restores the patched functions.
+ */
+export function installBreadcrumbCapture(
+  trail: BreadcrumbTrail,
+  options: BreadcrumbCaptureOptions
+): () => void {
+  const restorers: Array<() => void> = []
+
+  if (trail.accepts('click') && typeof document !== 'undefined') {
+    const handleClick = (event: MouseEvent): void => {
+      if (!(event.target instanceof Element) || isIgnored(event.target)) {
+        return
+      }
+      const text = event.target.textContent?.trim().replace(/\s+/g, ' ')
+      trail.add({
+        category: 'click',
+        message: describeElement(event.target),
+        data: text ? { text: truncate(text) } : undefined,
+      })
+    }
+    // Capture phase, so clicks stopped by the app are still recorded
+    document.addEventListener('click', handleClick, true)
+    restorers.push(() => document.removeEventListener('click', handleClick, true))
+  }
+
+  if (trail.accepts('fetch') && typeof globalThis.fetch === 'function') {
+    const originalFetch = globalThis.fetch
+    const trackedFetch: typeof fetch = async (input, init) => {
+      const request = input instanceof Request ? input : undefined
+      const url = resolveUrl(request ? request.url : input.toString())
+      if (!url || matchesUrl(url, options.excludeUrls)) {
+        return originalFetch(input, init)
+      }
+
+      const method = (init?.method ?? request?.method ?? 'GET').toUpperCase()
+      const start = performance.now()
+      const record = (data: Record<string, unknown>, level?: BreadcrumbLevel): void => {
+        trail.add({
+          category: 'fetch',
+          message: `${method} ${url.href}`,
+          level,
+          data: { method, url: url.href, duration: Math.round(performance.now() - start), ...data },
+        })
+      }
+
+      try {
+        const response = await originalFetch(input, init)
+        record({ status: response.status }, response.ok ? undefined : 'warning')
+        return response
+      } catch (error) {
+        record({ error: formatArgument(error) }, 'error')
+        throw error
+      }
+    }
+    globalThis.fetch = trackedFetch
+    restorers.push(() => {
+      if (globalThis.fetch === trackedFetch) {
+        globalThis.fetch = originalFetch
+      }
+    })
+  }
+
+  if (trail.accepts('console') && typeof console !== 'undefined') {
+    for (const method of Object.keys(CONSOLE_LEVELS) as ConsoleMethod[]) {
+      const original = console[method]
+      const wrapped = (...args: unknown[]): void => {
+        // The library's own logging is not part of the user's trail
+        if (!(typeof args[0] === 'string' && args[0].startsWith('[Observability]'))) {
+          trail.add({
+            category: 'console',
+            message: args.map(formatArgument).join(' '),
+            level: CONSOLE_LEVELS[method],
+          })
+        }
+        original.apply(console, args)
+      }
+      console[method] = wrapped
+      restorers.push(() => {
+        if (console[method] === wrapped) {
+          console[method] = original
+        }
+      })
+    }
+  }
+
+  return () => {
+    for (const restore of restorers) {
+      restore()
+    }
+  }
+}
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { categoryOf, createConsentManager } from './consent'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import { createMemoryExporter } from './test-utils'
+
+function setNavigatorProperty(name: string, value: unknown): void {
+  Object.defineProperty(navigator, name, { value, configurable: true })
+}
+
+describe('consent', () => {
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, 'globalPrivacyControl')
+    Reflect.deleteProperty(navigator, 'doNotTrack')
+  })
+
+  describe('categoryOf', () => {
+    it('maps telemetry types to consent categories', () => {
+      expect(categoryOf('event')).toBe('analytics')
+      expect(categoryOf('metric')).toBe('performance')
+      expect(categoryOf('trace')).toBe('performance')
+      expect(categoryOf('error')).toBe('errors')
+    })
+  })
+
+  describe('createConsentManager', () => {
+    it('grants everything when consent is not configured', () => {
+      expect(createConsentManager().get()).toEqual({
+        analytics: 'granted',
+        performance: 'granted',
+        errors: 'granted',
+      })
+    })
+
+    it('starts pending except for initial choices', () => {
+      const consent = createConsentManager({ initial: { errors: true, analytics: false } })
+      expect(consent.get()).toEqual({
+        analytics: 'denied',
+        performance: 'pending',
+        errors: 'granted',
+      })
+    })
+
+    it('reports grants and revocations', () => {
+      const consent = createConsentManager({ initial: { errors: true } })
+
+      expect(consent.update({ analytics: true, performance: false })).toEqual({
+        granted: ['analytics'],
+        revoked: [],
+      })
+      expect(consent.update({ analytics: false, errors: true })).toEqual({
+        granted: [],
+        revoked: ['analytics'],
+      })
+    })
+
+    it('denies analytics and performance under Global Privacy Control', () => {
+      setNavigatorProperty('globalPrivacyControl', true)
+      const consent = createConsentManager({ honorGlobalPrivacyControl: true })
+
+      consent.update({ analytics: true, performance: true, errors: true })
+
+      expect(consent.get()).toEqual({
+        analytics: 'denied',
+        performance: 'denied',
+        errors: 'granted',
+      })
+    })
+
+    it('honors Do Not Track only when configured', () => {
+      setNavigatorProperty('doNotTrack', '1')
+
+      expect(createConsentManager({}).status('analytics')).toBe('pending')
+      expect(createConsentManager({ honorDoNotTrack: true }).status('analytics')).toBe('denied')
+    })
+  })
+
+  describe('observability integration', () => {
+    const { events, exporter } = createMemoryExporter()
+
+    beforeEach(() => {
+      resetSessionCache()
+      localStorage.clear()
+      vi.useFakeTimers()
+      events.length = 0
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
+    it('buffers events until their category is granted', async () => {
+      const obs = createObservability({ batchSize: 100, exporters: [exporter], consent: {} })
+
+      obs.trackEvent('clicked')
+      obs.trackError('failed', new Error('boom'))
+      obs.flush()
+      await vi.runAllTimersAsync()
+      expect(events).toHaveLength(0)
+
+      obs.setConsent({ analytics: true, errors: false })
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      expect(events.map((e) => e.name)).toEqual(['clicked'])
+      obs.cleanup()
+    })
+
+    it('keeps original timestamps for released events', async () => {
+      const obs = createObservability({ batchSize: 100, exporters: [exporter], consent: {} })
+
+      obs.trackEvent('early')
+      const collectedAt = Date.now()
+      vi.advanceTimersByTime(60_000)
+      obs.setConsent({ analytics: true })
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      expect(events[0]?.timestamp).toBe(collectedAt)
+      obs.cleanup()
+    })
+
+    it('discards pending events when configured to', async () => {
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        consent: { pending: 'discard' },
+      })
+
+      obs.trackEvent('before')
+      obs.setConsent({ analytics: true })
+      obs.trackEvent('after')
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      expect(events.map((e) => e.name)).toEqual(['after'])
+      obs.cleanup()
+    })
+
+    it('never touches the session for denied events', () => {
+      const obs = createObservability({
+        exporters: [exporter],
+        consent: { initial: { analytics: false } },
+      })
+
+      obs.trackEvent('denied')
+
+      expect(localStorage.getItem('pleme_session_id')).toBeNull()
+      obs.cleanup()
+    })
+
+    it('stores no session before consent and stamps buffered events on release', async () => {
+      const obs = createObservability({ batchSize: 100, exporters: [exporter], consent: {} })
+
+      obs.trackEvent('early')
+      expect(localStorage.getItem('pleme_session_id')).toBeNull()
+
+      obs.setConsent({ analytics: true })
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      expect(localStorage.getItem('pleme_session_id')).not.toBeNull()
+      expect(events[0]?.sessionId).toBe(obs.getSessionId())
+      obs.cleanup()
+    })
+
+    it('stores the identified user only once analytics is granted', () => {
+      const obs = createObservability({ exporters: [exporter], consent: {} })
+
+      obs.identify('user-42')
+      expect(localStorage.getItem('pleme_session_id_user')).toBeNull()
+
+      obs.setConsent({ analytics: true })
+      expect(JSON.parse(localStorage.getItem('pleme_session_id_user') ?? 'null')).toEqual({
+        id: 'user-42',
+      })
+      obs.cleanup()
+    })
+
+    it('purges queued events, session and user on revocation', async () => {
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        consent: { initial: { analytics: true, performance: true, errors: true } },
+      })
+
+      obs.identify('user-42')
+      obs.trackEvent('clicked')
+      obs.trackMetric('LCP', 1200)
+      obs.histogram('render.duration').record(5)
+      const session = obs.getSessionId()
+
+      obs.setConsent({ performance: false })
+      expect(localStorage.getItem('pleme_session_id')).toBeNull()
+      expect(localStorage.getItem('pleme_session_id_user')).toBeNull()
+
+      obs.trackMetric('INP', 80)
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      expect(events.map((e) => e.name)).toEqual(['clicked'])
+      expect(obs.getSessionId()).not.toBe(session)
+      obs.cleanup()
+    })
+
+    it('drops events revoked while waiting for retry', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const failing = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValue(undefined)
+      const obs = createObservability({
+        batchSize: 1,
+        exporters: [{ name: 'flaky', export: failing }],
+        consent: { initial: { analytics: true } },
+      })
+
+      obs.trackEvent('clicked')
+      await vi.advanceTimersByTimeAsync(100)
+      obs.setConsent({ analytics: false })
+      await vi.advanceTimersByTimeAsync(10_000)
+
+      expect(failing).toHaveBeenCalledTimes(1)
+      obs.cleanup()
+    })
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Consent
+ *
+ * Per-category consent state gating collection. Each telemetry type belongs
+ * to one category; categories start pending until the application reports
+ * the user's choice, and browser privacy signals (Global Privacy Control,
+ * Do Not Track) can deny analytics and performance collection outright.
+ */
+
+import type {
+  ConsentCategory,
+  ConsentConfig,
+  ConsentState,
+  ConsentStatus,
+  TelemetryType,
+} from './types'
+
+const CATEGORIES: ConsentCategory[] = ['analytics', 'performance', 'errors']
+
+// Categories a privacy signal opts the user out of; error reporting stays under app control
+const SIGNAL_DENIED_CATEGORIES: ConsentCategory[] = ['analytics', 'performance']
+
+export interface ConsentChanges {
+  granted: ConsentCategory[]
+  revoked: ConsentCategory[]
+}
+
+export interface ConsentManager {
+  status: (category: ConsentCategory) => ConsentStatus
+  get: () => ConsentState
+  /** Apply the user's choices, returning which categories changed */
+  update: (choices: Partial<Record<ConsentCategory, boolean>>) => ConsentChanges
+}
+
+/**
+ * Consent category an event type is collected under.
+ */
+export function categoryOf(type: TelemetryType): ConsentCategory {
+  switch (type) {
+    case 'error':
+      return 'errors'
+    case 'metric':
+    case 'trace':
+      return 'performance'
+    default:
+      return 'analytics'
+  }
+}
+
+/**
+ * Whether the browser sends a privacy signal the configuration honors.
+ */
+function hasPrivacySignal(config: ConsentConfig): boolean {
+  if (typeof navigator === 'undefined') {
+    return false
+  }
+  const browser = navigator as Navigator & { globalPrivacyControl?: boolean }
+  const windowDnt =
+    typeof window !== 'undefined' ? (window as { doNotTrack?: string }).doNotTrack : undefined
+
+  return (
+    (config.honorGlobalPrivacyControl === true && browser.globalPrivacyControl === true) ||
+    (config.honorDoNotTrack === true && (browser.doNotTrack === '1' || windowDnt === '1'))
+  )
+}
+
+/**
+ * Create the consent state. Without configuration every category is granted,
+ * so collection behaves as if consent were not managed at all.
+ */
+export function createConsentManager(config?: ConsentConfig): ConsentManager {
+  const state: ConsentState = { analytics: 'granted', performance: 'granted', errors: 'granted' }
+  const locked = new Set<ConsentCategory>()
+
+  if (config) {
+    for (const category of CATEGORIES) {
+      const initial = config.initial?.[category]
+      state[category] = initial === undefined ? 'pending' : initial ? 'granted' : 'denied'
+    }
+    if (hasPrivacySignal(config)) {
+      for (const category of SIGNAL_DENIED_CATEGORIES) {
+        state[category] = 'denied'
+        locked.add(category)
+      }
+    }
+  }
+
+  return {
+    status: (category) => state[category],
+
+    get: () => ({ ...state }),
+
+    update(choices) {
+      const changes: ConsentChanges = { granted: [], revoked: [] }
+
+      for (const category of CATEGORIES) {
+        const choice = choices[category]
+        if (choice === undefined || locked.has(category)) {
+          continue
+        }
+        const next: ConsentStatus = choice ? 'granted' : 'denied'
+        if (next === state[category]) {
+          continue
+        }
+        if (next === 'granted') {
+          changes.granted.push(category)
+        } else if (state[category] === 'granted') {
+          changes.revoked.push(category)
+        }
+        state[category] = next
+      }
+
+      return changes
+    },
+  }
+}
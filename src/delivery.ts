@@ -0,0 +1,353 @@
+/**
+ * Delivery Channels
+ *
+ * Wraps an exporter with its own retry queue and circuit breaker, so one
+ * failing destination backs off on its own schedule while the others keep
+ * delivering. With a persistent store, failed batches are written to disk
+ * instead of memory and replayed on the next successful delivery.
+ */
+
+import { ExportError } from './exporters'
+import type { PersistedBatch, PersistentQueue } from './persistent-queue'
+import type { BreakerState } from './tab-coordination'
+import type {
+  DeliveryError,
+  DeliveryFailure,
+  DeliveryResult,
+  DropReason,
+  Exporter,
+  ExporterStats,
+  TelemetryEvent,
+} from './types'
+
+const MAX_PENDING_EVENTS = 100 // bound memory while an exporter is failing
+const MAX_BACKOFF_MS = 5 * 60 * 1000 // 5 minutes
+const ERROR_LOG_INTERVAL_MS = 60_000 // suppress duplicate logs for 60s
+
+export interface DeliveryChannelOptions {
+  /** Log recoveries to the console */
+  debug: boolean
+  /** Durable storage for batches that fail to send (optional, defaults to memory only) */
+  store?: PersistentQueue
+  /** Called after each batch the exporter accepts */
+  onSuccess?: (result: DeliveryResult) => void
+  /** Called after each failed export attempt */
+  onFailure?: (failure: DeliveryFailure) => void
+  /** Called when events are lost rather than retried */
+  onDrop?: (reason: DropReason, count: number) => void
+  /**
+   * Whether stored batches may be sent now. Tabs sharing a store leave them to
+   * the leading tab so each batch is sent once (defaults to always).
+   */
+  canReplay?: () => boolean
+}
+
+export interface DeliveryChannel {
+  readonly exporter: Exporter
+  /** Append events to this channel's pending queue */
+  enqueue: (events: TelemetryEvent[]) => void
+  /** Send stored batches, then pending events, unless the circuit breaker is open */
+  deliver: () => Promise<void>
+  /**
+   * Hand pending events to the exporter's unload path, ignoring the breaker
+   * unless a store can keep them for the next page load
+   */
+  deliverOnUnload: () => void
+  /** Drop pending events matching a predicate (e.g. after consent is revoked) */
+  discard: (predicate: (event: TelemetryEvent) => boolean) => void
+  /** Counters and circuit breaker state for this exporter */
+  stats: () => ExporterStats
+  /** Adopt circuit breaker state reported by another tab for the same exporter */
+  syncBreaker: (state: BreakerState) => void
+  /** Cancel retries and shut the exporter down */
+  dispose: () => void
+}
+
+/**
+ * Create a delivery channel for a single exporter.
+ */
+export function createDeliveryChannel(
+  exporter: Exporter,
+  options: DeliveryChannelOptions
+): DeliveryChannel {
+  const { store } = options
+  let pending: TelemetryEvent[] = []
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  // Circuit breaker state
+  let consecutiveFailures = 0
+  let backoffUntil = 0
+  let lastErrorLogged = 0
+
+  // Delivery counters reported by stats()
+  let sent = 0
+  let failedAttempts = 0
+  let lastError: DeliveryError | undefined
+
+  // A previous page load may have left batches behind, so check the store once
+  let hasStored = store !== undefined
+  let replaying = false
+
+  /**
+   * Calculate backoff delay with exponential increase.
+   */
+  function getBackoffDelay(): number {
+    // Exponential backoff: 5s, 10s, 20s, 40s, 80s, capped at MAX_BACKOFF_MS
+    return Math.min(5000 * 2 ** (consecutiveFailures - 1), MAX_BACKOFF_MS)
+  }
+
+  function scheduleRetry(delay: number): void {
+    if (!retryTimer) {
+      retryTimer = setTimeout(() => {
+        retryTimer = null
+        void deliver()
+      }, delay)
+    }
+  }
+
+  /**
+   * Run a user-supplied hook; a throwing hook must not disturb delivery.
+   */
+  function notify<T>(hook: ((value: T) => void) | undefined, value: T): void {
+    try {
+      hook?.(value)
+    } catch (error) {
+      console.warn('[Observability] Delivery hook failed:', error)
+    }
+  }
+
+  function recordSuccess(events: number, start: number): void {
+    sent += events
+    if (consecutiveFailures > 0 && options.debug) {
+      console.log(
+        `[Observability] Telemetry recovered via ${exporter.name} after`,
+        consecutiveFailures,
+        'failures'
+      )
+    }
+    consecutiveFailures = 0
+    backoffUntil = 0
+    notify(options.onSuccess, { exporter: exporter.name, events, duration: Date.now() - start })
+  }
+
+  function recordFailure(error: unknown, events: number): void {
+    consecutiveFailures++
+    failedAttempts++
+    lastError = {
+      exporter: exporter.name,
+      message: error instanceof Error ? error.message : String(error),
+      timestamp: Date.now(),
+    }
+
+    // Apply exponential backoff
+    const delay = getBackoffDelay()
+    backoffUntil = Date.now() + delay
+
+    // Suppress duplicate error logs (log at most once per minute)
+    const logNow = Date.now()
+    if (logNow - lastErrorLogged >= ERROR_LOG_INTERVAL_MS) {
+      lastErrorLogged = logNow
+      console.warn(
+        `[Observability] Telemetry send failed via ${exporter.name} (attempt ${consecutiveFailures}, retry in ${Math.round(delay / 1000)}s):`,
+        error instanceof Error ? error.message : error
+      )
+    }
+    notify(options.onFailure, {
+      exporter: exporter.name,
+      events,
+      error,
+      attempt: consecutiveFailures,
+      retryIn: delay,
+    })
+
+    scheduleRetry(delay)
+  }
+
+  /**
+   * Events of a failed export still to deliver: all of them, unless the exporter
+   * reported a partial delivery.
+   */
+  function undeliveredOf(error: unknown, events: TelemetryEvent[]): TelemetryEvent[] {
+    return error instanceof ExportError ? error.undelivered : events
+  }
+
+  /**
+   * Re-queue failed events in memory (but don't exceed the pending cap to bound memory).
+   */
+  function requeue(events: TelemetryEvent[]): void {
+    const spaceLeft = Math.max(MAX_PENDING_EVENTS - pending.length, 0)
+    pending.push(...events.slice(0, spaceLeft))
+    if (events.length > spaceLeft) {
+      options.onDrop?.('queue_overflow', events.length - spaceLeft)
+    }
+  }
+
+  /**
+   * Keep failed events for a later attempt: durably when a store is configured,
+   * otherwise in memory.
+   */
+  async function retain(events: TelemetryEvent[]): Promise<void> {
+    if (!store) {
+      requeue(events)
+      return
+    }
+    try {
+      await store.add(exporter.name, events)
+      hasStored = true
+    } catch {
+      requeue(events)
+    }
+  }
+
+  /**
+   * Send stored batches oldest-first, stopping at the first failure. Each batch is
+   * claimed before it is sent, so tabs sharing the store do not send it twice.
+   * Returns false if a batch failed to send.
+   */
+  async function replayStored(): Promise<boolean> {
+    if (!store || !hasStored || replaying || options.canReplay?.() === false) {
+      return true
+    }
+
+    replaying = true
+    try {
+      for (;;) {
+        let batch: PersistedBatch | undefined
+        try {
+          batch = await store.claim(exporter.name)
+        } catch {
+          return true
+        }
+        if (!batch) {
+          break
+        }
+
+        const start = Date.now()
+        try {
+          await exporter.export(batch.events)
+        } catch (error) {
+          const undelivered = undeliveredOf(error, batch.events)
+          if (undelivered.length < batch.events.length) {
+            recordSuccess(batch.events.length - undelivered.length, start)
+          }
+          // Hand what is left of the batch back for a later replay, here or in another tab
+          await store
+            .restore({ ...batch, events: undelivered })
+            .catch(() => requeue(undelivered))
+          recordFailure(error, undelivered.length)
+          return false
+        }
+        recordSuccess(batch.events.length, start)
+      }
+
+      hasStored = false
+      return true
+    } finally {
+      replaying = false
+    }
+  }
+
+  async function deliver(): Promise<void> {
+    if (pending.length === 0 && !hasStored) {
+      return
+    }
+
+    // Circuit breaker: skip if in backoff period
+    const now = Date.now()
+    if (now < backoffUntil) {
+      // Still in backoff — retry once the backoff expires
+      scheduleRetry(backoffUntil - now)
+      return
+    }
+
+    // Older, stored batches go first; if they still fail, new events wait in memory
+    if (!(await replayStored()) || pending.length === 0) {
+      return
+    }
+
+    const events = pending
+    pending = []
+
+    const start = Date.now()
+    try {
+      await exporter.export(events)
+      recordSuccess(events.length, start)
+    } catch (error) {
+      const undelivered = undeliveredOf(error, events)
+      if (undelivered.length < events.length) {
+        recordSuccess(events.length - undelivered.length, start)
+      }
+      recordFailure(error, undelivered.length)
+      await retain(undelivered)
+    }
+  }
+
+  function deliverOnUnload(): void {
+    if (pending.length === 0) {
+      return
+    }
+
+    const events = pending
+    pending = []
+
+    // The exporter is known to be failing: store the events rather than lose them to a beacon
+    if (store && Date.now() < backoffUntil) {
+      store.add(exporter.name, events).catch(() => options.onDrop?.('unload_failed', events.length))
+      return
+    }
+
+    if (exporter.exportOnUnload) {
+      const onLost = (lost: TelemetryEvent[]): void => {
+        options.onDrop?.('beacon_rejected', lost.length)
+      }
+      if (exporter.exportOnUnload(events, onLost) === false) {
+        onLost(events)
+      }
+    } else {
+      // Best effort: exporters without an unload path rely on keepalive requests
+      exporter.export(events).catch(() => options.onDrop?.('unload_failed', events.length))
+    }
+  }
+
+  return {
+    exporter,
+
+    enqueue(events: TelemetryEvent[]): void {
+      pending.push(...events)
+    },
+
+    deliver,
+    deliverOnUnload,
+
+    discard(predicate: (event: TelemetryEvent) => boolean): void {
+      pending = pending.filter((event) => !predicate(event))
+    },
+
+    stats(): ExporterStats {
+      const open = Date.now() < backoffUntil
+      return {
+        name: exporter.name,
+        pending: pending.length,
+        sent,
+        failedAttempts,
+        consecutiveFailures,
+        circuit: open ? 'open' : 'closed',
+        retryAt: open ? backoffUntil : 0,
+        ...(lastError ? { lastError } : {}),
+      }
+    },
+
+    syncBreaker(state: BreakerState): void {
+      consecutiveFailures = state.consecutiveFailures
+      backoffUntil = state.retryAt
+    },
+
+    dispose(): void {
+      if (retryTimer) {
+        clearTimeout(retryTimer)
+        retryTimer = null
+      }
+      Promise.resolve(exporter.shutdown?.()).catch(() => {})
+    },
+  }
+}
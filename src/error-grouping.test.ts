@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createErrorGroups, fingerprintError, normalizeMessage } from './error-grouping'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import { createMemoryExporter } from './test-utils'
+import type { StackFrame } from './types'
+
+const frames: StackFrame[] = [
+  { function: 'render', file: 'https://app.example.com/assets/list.js', line: 10, inApp: true },
+  { function: 'commit', file: 'https://app.example.com/vendor/react.js', line: 99, inApp: false },
+]
+
+describe('error grouping', () => {
+  describe('normalizeMessage', () => {
+    it('replaces URLs, IDs, hex values and numbers', () => {
+      expect(
+        normalizeMessage(
+          'Failed to load https://api.example.com/users/42 for 3f2b6c1e-9a7d-4e21-8c3f-0d5e6a7b8c9d'
+        )
+      ).toBe('Failed to load <url> for <id>')
+      expect(normalizeMessage('Bad pointer 0xdeadbeef after 12.5 seconds')).toBe(
+        'Bad pointer <hex> after <n> seconds'
+      )
+    })
+  })
+
+  describe('fingerprintError', () => {
+    it('groups errors that differ only in data or line numbers', () => {
+      const moved = frames.map((frame) => ({ ...frame, line: (frame.line ?? 0) + 5 }))
+
+      expect(fingerprintError('TypeError', 'Item 1 not found', frames)).toBe(
+        fingerprintError('TypeError', 'Item 2 not found', moved)
+      )
+      expect(fingerprintError('TypeError', 'Item 1 not found', frames)).toMatch(/^[0-9a-f]{8}$/)
+    })
+
+    it('separates error types, messages and in-app locations', () => {
+      const base = fingerprintError('TypeError', 'Item not found', frames)
+      const elsewhere = [{ ...frames[0], function: 'update' }, frames[1]] as StackFrame[]
+      const library = [frames[0], { ...frames[1], function: 'flush' }] as StackFrame[]
+
+      expect(fingerprintError('RangeError', 'Item not found', frames)).not.toBe(base)
+      expect(fingerprintError('TypeError', 'Item missing', frames)).not.toBe(base)
+      expect(fingerprintError('TypeError', 'Item not found', elsewhere)).not.toBe(base)
+      // Library frames are not part of the fingerprint
+      expect(fingerprintError('TypeError', 'Item not found', library)).toBe(base)
+    })
+  })
+
+  describe('createErrorGroups', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('emits the first occurrence and collapses repeats into one counted event', () => {
+      const emit = vi.fn()
+      const groups = createErrorGroups<string>(emit, { dedupeWindow: 1000 })
+
+      groups.capture('a', 'first')
+      groups.capture('a', 'second')
+      groups.capture('a', 'third')
+      groups.capture('b', 'other')
+      expect(emit.mock.calls).toEqual([
+        ['first', 1],
+        ['other', 1],
+      ])
+
+      vi.advanceTimersByTime(1000)
+      expect(emit).toHaveBeenLastCalledWith('third', 2)
+      expect(emit).toHaveBeenCalledTimes(3)
+
+      // A new window starts with the next occurrence
+      groups.capture('a', 'fourth')
+      expect(emit).toHaveBeenLastCalledWith('fourth', 1)
+    })
+
+    it('emits pending counts on flush', () => {
+      const emit = vi.fn()
+      const groups = createErrorGroups<string>(emit)
+
+      groups.capture('a', 'first')
+      groups.capture('a', 'second')
+      groups.flush()
+
+      expect(emit).toHaveBeenLastCalledWith('second', 1)
+      vi.runAllTimers()
+      expect(emit).toHaveBeenCalledTimes(2)
+    })
+
+    it('rate limits per fingerprint and overall, per minute', () => {
+      const emit = vi.fn()
+      const onDrop = vi.fn()
+      const groups = createErrorGroups<string>(
+        emit,
+        { dedupeWindow: 0, maxPerFingerprint: 2, maxErrorsPerMinute: 3 },
+        onDrop
+      )
+
+      for (let i = 0; i < 5; i++) {
+        groups.capture('a', `a${i}`)
+      }
+      groups.capture('b', 'b0')
+      groups.capture('c', 'c0')
+      expect(emit.mock.calls.map(([event]) => event)).toEqual(['a0', 'a1', 'b0'])
+      expect(onDrop).toHaveBeenCalledTimes(4)
+
+      vi.advanceTimersByTime(60_000)
+      groups.capture('a', 'a5')
+      expect(emit).toHaveBeenLastCalledWith('a5', 1)
+    })
+  })
+
+  describe('createObservability', () => {
+    const { events: exported, exporter } = createMemoryExporter()
+
+    beforeEach(() => {
+      exported.length = 0
+      resetSessionCache()
+      sessionStorage.clear()
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
+    it('fingerprints errors and collapses a burst into a counted event', async () => {
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        errorGrouping: true,
+      })
+
+      for (let i = 0; i < 50; i++) {
+        obs.trackError('render_failed', new Error(`Cannot read row ${i}`))
+      }
+      obs.trackEvent('still_here')
+      await vi.advanceTimersByTimeAsync(5000)
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      const errors = exported.filter((event) => event.type === 'error')
+      expect(errors).toHaveLength(2)
+      expect(errors[0]?.properties).toMatchObject({ message: 'Cannot read row 0', count: 1 })
+      expect(errors[1]?.properties).toMatchObject({ message: 'Cannot read row 49', count: 49 })
+      expect(errors[0]?.properties?.fingerprint).toBe(errors[1]?.properties?.fingerprint)
+      expect(exported.some((event) => event.name === 'still_here')).toBe(true)
+
+      obs.cleanup()
+    })
+
+    it('sends the final repeat counts on cleanup', async () => {
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        errorGrouping: true,
+      })
+
+      obs.trackError('render_failed', new Error('boom'))
+      obs.trackError('render_failed', new Error('boom'))
+      obs.trackError('render_failed', new Error('boom'))
+      obs.cleanup()
+      // Nothing is left scheduled on the torn-down instance
+      expect(vi.getTimerCount()).toBe(0)
+      await vi.runAllTimersAsync()
+
+      const errors = exported.filter((event) => event.type === 'error')
+      expect(errors.map((event) => event.properties?.count)).toEqual([1, 2])
+    })
+
+    it('sends every error without grouping, the default', async () => {
+      const obs = createObservability({ batchSize: 100, exporters: [exporter] })
+
+      obs.trackError('render_failed', new Error('boom'))
+      obs.trackError('render_failed', new Error('boom'))
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      const errors = exported.filter((event) => event.type === 'error')
+      expect(errors).toHaveLength(2)
+      expect(errors[0]?.properties).not.toHaveProperty('fingerprint')
+
+      obs.cleanup()
+    })
+  })
+})
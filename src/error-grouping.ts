@@ -0,0 +1,172 @@
+/**
+ * Error Grouping
+ *
+ * Keeps a burst of identical errors from flooding the queue. Errors are
+ * fingerprinted from their type, normalized message and top in-app frames;
+ * repeats of a fingerprint within the dedupe window collapse into a single
+ * follow-up event carrying a count, and emitted errors are rate limited per
+ * fingerprint and overall.
+ */
+
+import type { ErrorGroupingConfig, StackFrame } from './types'
+import { fnv1a } from './sampling'
+
+const DEFAULT_DEDUPE_WINDOW = 5000
+const DEFAULT_MAX_PER_FINGERPRINT = 10
+const DEFAULT_MAX_ERRORS_PER_MINUTE = 60
+const RATE_LIMIT_WINDOW = 60_000
+const FINGERPRINT_FRAMES = 3
+
+const URL_PATTERN = /\b[a-z][a-z\d+.-]*:\/\/[^\s'"`)]+/gi
+const UUID_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi
+const HEX_PATTERN = /\b(?:0x[0-9a-f]+|[0-9a-f]{8,})\b/gi
+const NUMBER_PATTERN = /\d+(?:\.\d+)?/g
+
+export interface ErrorGroups<T> {
+  /**
+   * Report an occurrence. The first in a window is emitted at once; repeats
+   * are counted and emitted as one event when the window closes.
+   */
+  capture: (fingerprint: string, event: T) => void
+  /** Emit every pending repeat count now */
+  flush: () => void
+}
+
+interface Group<T> {
+  repeats: number
+  latest: T
+  timer: ReturnType<typeof setTimeout>
+}
+
+interface RateWindow {
+  start: number
+  count: number
+}
+
+/**
+ * Replace the variable parts of an error message (URLs, IDs, numbers) so
+ * occurrences that differ only in data share a fingerprint.
+ */
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(URL_PATTERN, '<url>')
+    .replace(UUID_PATTERN, '<id>')
+    .replace(HEX_PATTERN, '<hex>')
+    .replace(NUMBER_PATTERN, '<n>')
+    .trim()
+}
+
+/**
+ * Fingerprint an error from its type, normalized message and the function
+ * and file of its top in-app frames. Line numbers are left out so a
+ * fingerprint survives unrelated edits to the same file.
+ */
+export function fingerprintError(
+  errorType: string,
+  message: string,
+  frames: StackFrame[] = []
+): string {
+  const location = frames
+    .filter((frame) => frame.inApp)
+    .slice(0, FINGERPRINT_FRAMES)
+    .map((frame) => `${frame.function ?? '?'}@${frame.file ?? '?'}`)
+    .join('|')
+  return fnv1a(`${errorType}\n${normalizeMessage(message)}\n${location}`)
+    .toString(16)
+    .padStart(8, '0')
+}
+
+/**
+ * Create the per-fingerprint dedupe windows and rate limits. `emit` receives
+ * each event let through with the number of occurrences it stands for;
+ * `onDrop` the number of occurrences lost to the rate limits.
+ */
+export function createErrorGroups<T>(
+  emit: (event: T, count: number) => void,
+  config: ErrorGroupingConfig = {},
+  onDrop: (count: number) => void = () => {}
+): ErrorGroups<T> {
+  const dedupeWindow = config.dedupeWindow ?? DEFAULT_DEDUPE_WINDOW
+  const maxPerFingerprint = config.maxPerFingerprint ?? DEFAULT_MAX_PER_FINGERPRINT
+  const maxErrorsPerMinute = config.maxErrorsPerMinute ?? DEFAULT_MAX_ERRORS_PER_MINUTE
+  const groups = new Map<string, Group<T>>()
+  const fingerprintRates = new Map<string, RateWindow>()
+  const globalRate: RateWindow = { start: 0, count: 0 }
+
+  /**
+   * Start a new window once the current one is over; true while under the limit.
+   */
+  function withinLimit(window: RateWindow, limit: number, now: number): boolean {
+    if (now - window.start >= RATE_LIMIT_WINDOW) {
+      window.start = now
+      window.count = 0
+    }
+    return window.count < limit
+  }
+
+  /**
+   * Emit unless the fingerprint or the session as a whole is over its limit.
+   */
+  function emitLimited(fingerprint: string, event: T, count: number): void {
+    const now = Date.now()
+    if (now - globalRate.start >= RATE_LIMIT_WINDOW) {
+      // Forget fingerprints whose window has ended so the map stays small
+      for (const [key, window] of fingerprintRates) {
+        if (now - window.start >= RATE_LIMIT_WINDOW) {
+          fingerprintRates.delete(key)
+        }
+      }
+    }
+
+    const rate = fingerprintRates.get(fingerprint) ?? { start: now, count: 0 }
+    fingerprintRates.set(fingerprint, rate)
+    if (
+      !withinLimit(rate, maxPerFingerprint, now) ||
+      !withinLimit(globalRate, maxErrorsPerMinute, now)
+    ) {
+      onDrop(count)
+      return
+    }
+    rate.count++
+    globalRate.count++
+    emit(event, count)
+  }
+
+  function close(fingerprint: string): void {
+    const group = groups.get(fingerprint)
+    if (!group) {
+      return
+    }
+    clearTimeout(group.timer)
+    groups.delete(fingerprint)
+    if (group.repeats > 0) {
+      emitLimited(fingerprint, group.latest, group.repeats)
+    }
+  }
+
+  return {
+    capture(fingerprint, event) {
+      const group = groups.get(fingerprint)
+      if (group) {
+        group.repeats++
+        group.latest = event
+        return
+      }
+
+      if (dedupeWindow > 0) {
+        groups.set(fingerprint, {
+          repeats: 0,
+          latest: event,
+          timer: setTimeout(() => close(fingerprint), dedupeWindow),
+        })
+      }
+      emitLimited(fingerprint, event, 1)
+    },
+
+    flush() {
+      for (const fingerprint of [...groups.keys()]) {
+        close(fingerprint)
+      }
+    },
+  }
+}
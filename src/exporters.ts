@@ -0,0 +1,171 @@
+/**
+ * Exporters
+ *
+ * Built-in transports implementing the `Exporter` interface. Pass any
+ * combination through `ObservabilityConfig.exporters` to fan a batch out to
+ * several destinations.
+ */
+
+import type { Exporter, OtlpConfig, TelemetryEvent } from './types'
+import { buildOtlpRequests } from './otlp'
+import {
+  DEFAULT_MAX_BATCH_BYTES,
+  encodeWithinLimit,
+  postJson,
+  sendBeacon,
+  type EncodedRequest,
+  type PostOptions,
+} from './transport'
+
+export interface HttpExporterOptions {
+  /** Endpoint URL receiving `{ events }` JSON bodies */
+  endpoint: string
+  /** Extra request headers for fetch delivery (beacons cannot carry headers) */
+  headers?: Record<string, string>
+  /** Split batches so each request body stays under this many bytes (default: 60 000) */
+  maxBatchBytes?: number
+  /** Gzip fetch request bodies with `Content-Encoding: gzip` (default: false) */
+  compression?: boolean
+}
+
+export interface ConsoleExporterOptions {
+  /** Logger to write to (defaults to `console`) */
+  logger?: Pick<Console, 'log'>
+}
+
+/**
+ * Rejection from `Exporter.export` when only part of a batch was delivered:
+ * the delivery channel counts the rest as sent and retries only `undelivered`.
+ */
+export class ExportError extends Error {
+  constructor(
+    message: string,
+    readonly undelivered: TelemetryEvent[],
+    options?: ErrorOptions
+  ) {
+    super(message, options)
+    this.name = 'ExportError'
+  }
+}
+
+/**
+ * POST requests one at a time, stopping at the first failure so a failing
+ * endpoint is not hit again in the same attempt. Rejects with an `ExportError`
+ * carrying the events of the failed and unsent requests.
+ */
+async function postInOrder(requests: EncodedRequest[], options: PostOptions): Promise<void> {
+  const undeliveredFrom = (index: number): TelemetryEvent[] =>
+    requests.slice(index).flatMap((request) => request.events)
+
+  for (const [index, request] of requests.entries()) {
+    let response: Response
+    try {
+      response = await postJson(request, options)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      throw new ExportError(message, undeliveredFrom(index), { cause: error })
+    }
+    if (!response.ok) {
+      throw new ExportError(`Telemetry request failed: ${response.status}`, undeliveredFrom(index))
+    }
+  }
+}
+
+/**
+ * Queue each request as a beacon, passing the events of requests that were
+ * refused, or whose keepalive fallback failed, to `onLost`.
+ */
+function beaconAll(
+  requests: EncodedRequest[],
+  headers: Record<string, string> | undefined,
+  onLost: (events: TelemetryEvent[]) => void
+): undefined {
+  for (const request of requests) {
+    if (!sendBeacon(request, headers, () => onLost(request.events))) {
+      onLost(request.events)
+    }
+  }
+}
+
+/**
+ * Exporter for the bespoke `{ events }` format understood by the Hanabi BFF.
+ */
+export function createHttpExporter(options: HttpExporterOptions): Exporter {
+  const maxBatchBytes = options.maxBatchBytes ?? DEFAULT_MAX_BATCH_BYTES
+  const encode = (events: TelemetryEvent[]): EncodedRequest[] =>
+    encodeWithinLimit(events, maxBatchBytes, (chunk) => [
+      { url: options.endpoint, body: JSON.stringify({ events: chunk }), events: chunk },
+    ])
+
+  return {
+    name: `http:${options.endpoint}`,
+    endpoints: [options.endpoint],
+
+    async export(events: TelemetryEvent[]): Promise<void> {
+      await postInOrder(encode(events), {
+        headers: options.headers,
+        compression: options.compression,
+      })
+    },
+
+    exportOnUnload(events: TelemetryEvent[], onLost): undefined {
+      beaconAll(encode(events), options.headers, onLost)
+    },
+  }
+}
+
+/**
+ * Exporter sending OTLP/HTTP JSON straight to an OpenTelemetry Collector.
+ * Signal requests go out one at a time; only the events of a failed request
+ * and those after it are retried.
+ */
+export function createOtlpExporter(config: OtlpConfig): Exporter {
+  const maxBatchBytes = config.maxBatchBytes ?? DEFAULT_MAX_BATCH_BYTES
+  const encode = (events: TelemetryEvent[]): EncodedRequest[] =>
+    encodeWithinLimit(events, maxBatchBytes, (chunk) =>
+      buildOtlpRequests(chunk, config).map((request) => ({
+        url: request.url,
+        body: JSON.stringify(request.body),
+        events: request.events,
+      }))
+    )
+
+  return {
+    name: `otlp:${config.endpoint}`,
+    endpoints: [config.endpoint],
+
+    async export(events: TelemetryEvent[]): Promise<void> {
+      await postInOrder(encode(events), {
+        headers: config.headers,
+        compression: config.compression,
+      })
+    },
+
+    exportOnUnload(events: TelemetryEvent[], onLost): undefined {
+      beaconAll(encode(events), config.headers, onLost)
+    },
+  }
+}
+
+/**
+ * Exporter that logs every event, useful next to a real transport while debugging.
+ */
+export function createConsoleExporter(options: ConsoleExporterOptions = {}): Exporter {
+  const logger = options.logger ?? console
+
+  const write = (events: TelemetryEvent[]): undefined => {
+    for (const event of events) {
+      logger.log('[Observability] Export', event.type, event.name, event)
+    }
+  }
+
+  return {
+    name: 'console',
+
+    async export(events: TelemetryEvent[]): Promise<void> {
+      write(events)
+    },
+
+    exportOnUnload: write,
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Global Error Capture
+ *
+ * Window-level listeners for uncaught errors, unhandled promise rejections
+ * and failed resource loads (scripts, images, stylesheets), normalized into
+ * the arguments `trackError` expects.
+ */
+
+export type GlobalErrorHandler = (
+  name: string,
+  error: unknown,
+  properties: Record<string, unknown>
+) => void
+
+/**
+ * Describe a failed resource load, or return undefined when the event
+ * target is not a resource element we track.
+ */
+function describeResource(target: EventTarget | null): Record<string, unknown> | undefined {
+  if (typeof HTMLElement === 'undefined' || !(target instanceof HTMLElement)) {
+    return undefined
+  }
+  if (target instanceof HTMLScriptElement) {
+    return { resourceType: 'script', resourceUrl: target.src }
+  }
+  if (target instanceof HTMLImageElement) {
+    return { resourceType: 'image', resourceUrl: target.currentSrc || target.src }
+  }
+  if (target instanceof HTMLLinkElement && target.rel.split(/\s+/).includes('stylesheet')) {
+    return { resourceType: 'stylesheet', resourceUrl: target.href }
+  }
+  return undefined
+}
+
+/**
+ * Install global error listeners on `window`.
+ * Returns a function that removes them again.
+ */
+export function installGlobalErrorHandlers(handler: GlobalErrorHandler): () => void {
+  if (typeof window === 'undefined') {
+    return () => {}
+  }
+
+  const handleError = (event: Event): void => {
+    // Resource failures don't bubble, so they only reach this capture-phase listener
+    const resource = describeResource(event.target)
+    if (resource) {
+      handler(
+        'resource_error',
+        `Failed to load ${resource.resourceType}: ${resource.resourceUrl}`,
+        { source: 'resource', ...resource }
+      )
+      return
+    }
+
+    if (!(event instanceof ErrorEvent)) {
+      return
+    }
+
+    handler('uncaught_error', event.error ?? event.message, {
+      source: 'window.onerror',
+      filename: event.filename,
+      lineno: event.lineno,
+      colno: event.colno,
+      // Cross-origin scripts without CORS headers only report "Script error."
+      ...(event.error === undefined || event.error === null
+        ? { crossOrigin: event.message === 'Script error.' }
+        : {}),
+    })
+  }
+
+  const handleRejection = (event: PromiseRejectionEvent): void => {
+    handler('unhandled_rejection', event.reason, { source: 'unhandledrejection' })
+  }
+
+  window.addEventListener('error', handleError, true)
+  window.addEventListener('unhandledrejection', handleRejection)
+
+  return () => {
+    window.removeEventListener('error', handleError, true)
+    window.removeEventListener('unhandledrejection', handleRejection)
+  }
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import { createMemoryExporter } from './test-utils'
+import type { TelemetryEvent } from './types'
+
+class FakeXMLHttpRequest extends EventTarget {
+  status = 0
+  requestHeaders: Record<string, string> = {}
+  responseHeaders: Record<string, string> = {}
+
+  open(_method: string, _url: string): void {}
+
+  setRequestHeader(name: string, value: string): void {
+    this.requestHeaders[name] = value
+  }
+
+  getResponseHeader(name: string): string | null {
+    return this.responseHeaders[name] ?? null
+  }
+
+  send(): void {}
+
+  respond(status: number, headers: Record<string, string> = {}): void {
+    this.status = status
+    this.responseHeaders = headers
+    this.dispatchEvent(new Event('loadend'))
+  }
+}
+
+describe('http instrumentation', () => {
+  const { events: exported, exporter } = createMemoryExporter()
+  const originalFetch = globalThis.fetch
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  const origin = () => window.location.origin
+
+  async function flushSpans(obs: ReturnType<typeof createObservability>): Promise<TelemetryEvent[]> {
+    obs.flush()
+    await vi.runAllTimersAsync()
+    return exported.filter((event) => event.type === 'trace')
+  }
+
+  beforeEach(() => {
+    exported.length = 0
+    resetSessionCache()
+    sessionStorage.clear()
+    vi.useFakeTimers()
+    fetchMock = vi.fn().mockResolvedValue(
+      new Response('{"ok":true}', { status: 200, headers: { 'content-length': '11' } })
+    )
+    globalThis.fetch = fetchMock as typeof fetch
+    vi.stubGlobal('XMLHttpRequest', FakeXMLHttpRequest)
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('fetch', () => {
+    it('records requests as client spans with a URL template', async () => {
+      const obs = createObservability({ batchSize: 100, exporters: [exporter], instrumentHttp: true })
+
+      await fetch('/api/users/123?expand=true', { method: 'post' })
+      const [span] = await flushSpans(obs)
+
+      expect(span?.name).toBe(`POST ${origin()}/api/users/:id`)
+      expect(span?.span?.kind).toBe('client')
+      expect(span?.properties).toMatchObject({
+        'http.request.method': 'POST',
+        'url.full': `${origin()}/api/users/123?expand=true`,
+        'url.template': `${origin()}/api/users/:id`,
+        'http.response.status_code': 200,
+        'http.response.body.size': 11,
+      })
+
+      obs.cleanup()
+    })
+
+    it('marks error responses and network failures', async () => {
+      const obs = createObservability({ batchSize: 100, exporters: [exporter], instrumentHttp: true })
+
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 503 }))
+      await fetch('/api/a')
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      await expect(fetch('/api/b')).rejects.toThrow('Failed to fetch')
+
+      const [unavailable, failed] = await flushSpans(obs)
+      expect(unavailable?.span?.status).toEqual({ code: 'error', message: 'HTTP 503' })
+      expect(failed?.span?.status).toEqual({ code: 'error', message: 'Failed to fetch' })
+      expect(failed?.span?.events[0]?.name).toBe('exception')
+
+      obs.cleanup()
+    })
+
+    it('propagates traceparent to same-origin and allow-listed origins only', async () => {
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        instrumentHttp: { propagateTraceHeaderOrigins: ['https://api.example.com'] },
+      })
+
+      await fetch('/local')
+      await fetch('https://api.example.com/users')
+      await fetch('https://cdn.other.com/lib.js')
+
+      const headerOf = (call: number) =>
+        new Headers(fetchMock.mock.calls[call]?.[1]?.headers).get('traceparent')
+      const spans = await flushSpans(obs)
+
+      expect(headerOf(0)).toBe(`00-${spans[0]?.span?.traceId}-${spans[0]?.span?.spanId}-01`)
+      expect(headerOf(1)).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/)
+      expect(headerOf(2)).toBeNull()
+
+      obs.cleanup()
+    })
+
+    it('nests request spans under the active span', async () => {
+      const obs = createObservability({ batchSize: 100, exporters: [exporter], instrumentHttp: true })
+
+      await obs.withSpan('load-users', () => fetch('/api/users'))
+      const [request, parent] = await flushSpans(obs)
+
+      expect(request?.span?.parentSpanId).toBe(parent?.span?.spanId)
+
+      obs.cleanup()
+    })
+
+    it('never records requests to the telemetry endpoint', async () => {
+      const obs = createObservability({ batchSize: 1, instrumentHttp: true })
+
+      obs.trackEvent('something')
+      await vi.runAllTimersAsync()
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(fetchMock.mock.calls[0]?.[0]).toBe('/api/telemetry')
+      // A recorded delivery would have queued a span and triggered another flush
+      expect(fetchMock.mock.calls[0]?.[1]?.headers).not.toBeInstanceOf(Headers)
+      await vi.runAllTimersAsync()
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+
+      obs.cleanup()
+    })
+
+    it('skips user-ignored URLs', async () => {
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        instrumentHttp: { ignoreUrls: [/\/health$/] },
+      })
+
+      await fetch('/health')
+      expect(await flushSpans(obs)).toHaveLength(0)
+
+      obs.cleanup()
+    })
+  })
+
+  describe('XMLHttpRequest', () => {
+    it('records requests and propagates traceparent', async () => {
+      const obs = createObservability({ batchSize: 100, exporters: [exporter], instrumentHttp: true })
+
+      const xhr = new XMLHttpRequest() as unknown as FakeXMLHttpRequest
+      xhr.open('get', '/api/orders/42')
+      xhr.send()
+      xhr.respond(404, { 'content-length': '5' })
+
+      const [span] = await flushSpans(obs)
+      expect(span?.name).toBe(`GET ${origin()}/api/orders/:id`)
+      expect(span?.properties).toMatchObject({
+        'http.response.status_code': 404,
+        'http.response.body.size': 5,
+      })
+      expect(span?.span?.status.code).toBe('error')
+      expect(xhr.requestHeaders.traceparent).toBe(
+        `00-${span?.span?.traceId}-${span?.span?.spanId}-01`
+      )
+
+      obs.cleanup()
+    })
+
+    it('treats status 0 as a failed request', async () => {
+      const obs = createObservability({ batchSize: 100, exporters: [exporter], instrumentHttp: true })
+
+      const xhr = new XMLHttpRequest() as unknown as FakeXMLHttpRequest
+      xhr.open('GET', 'https://api.example.com/data')
+      xhr.send()
+      xhr.respond(0)
+
+      const [span] = await flushSpans(obs)
+      expect(span?.span?.status.code).toBe('error')
+      expect(xhr.requestHeaders.traceparent).toBeUndefined()
+
+      obs.cleanup()
+    })
+  })
+
+  describe('cleanup', () => {
+    it('restores the original fetch and XMLHttpRequest', () => {
+      const { open, send } = FakeXMLHttpRequest.prototype
+
+      const obs = createObservability({ exporters: [exporter], instrumentHttp: true })
+      expect(globalThis.fetch).not.toBe(fetchMock)
+      expect(FakeXMLHttpRequest.prototype.send).not.toBe(send)
+
+      obs.cleanup()
+      expect(globalThis.fetch).toBe(fetchMock)
+      expect(FakeXMLHttpRequest.prototype.open).toBe(open)
+      expect(FakeXMLHttpRequest.prototype.send).toBe(send)
+    })
+  })
+})
@@ -0,0 +1,197 @@
+/**
+ * HTTP Instrumentation
+ *
+ * Opt-in patching of `fetch` and `XMLHttpRequest` that records every request
+ * as a client span (method, URL template, status, response size, duration)
+ * and propagates W3C `traceparent` to allow-listed origins.
+ */
+
+import type { HttpInstrumentationConfig, Span } from './types'
+import type { Tracer } from './tracing'
+import { formatTraceparent } from './tracing'
+import { matchesUrl, normalizePath, resolveUrl, type UrlPattern } from './url'
+
+export interface HttpInstrumentationOptions extends HttpInstrumentationConfig {
+  /** URLs that must never be instrumented (the library's own endpoints) */
+  excludeUrls: UrlPattern[]
+}
+
+interface XhrRequestInfo {
+  method: string
+  url: URL
+}
+
+function defaultUrlTemplate(url: URL): string {
+  return `${url.origin}${normalizePath(url.pathname)}`
+}
+
+function parseSize(contentLength: string | null): number | undefined {
+  if (contentLength === null) {
+    return undefined
+  }
+  const size = Number.parseInt(contentLength, 10)
+  return Number.isNaN(size) ? undefined : size
+}
+
+/**
+ * Install fetch and XMLHttpRequest instrumentation.
+ * Returns a function that restores the original implementations.
+ */
+export function installHttpInstrumentation(
+  tracer: Tracer,
+  options: HttpInstrumentationOptions
+): () => void {
+  const urlTemplate = options.urlTemplate ?? defaultUrlTemplate
+  const ignored = [...options.excludeUrls, ...(options.ignoreUrls ?? [])]
+  const propagateTo = options.propagateTraceHeaderOrigins ?? []
+  let enabled = true
+
+  function shouldTrace(url: URL | undefined): url is URL {
+    return enabled && url !== undefined && !matchesUrl(url, ignored)
+  }
+
+  function shouldPropagate(url: URL): boolean {
+    const sameOrigin = typeof window !== 'undefined' && url.origin === window.location.origin
+    return sameOrigin || matchesUrl(url, propagateTo)
+  }
+
+  function startRequestSpan(method: string, url: URL): Span {
+    const template = urlTemplate(url)
+    return tracer.startSpan(`${method} ${template}`, {
+      kind: 'client',
+      attributes: {
+        'http.request.method': method,
+        'url.full': url.href,
+        'url.template': template,
+        'server.address': url.hostname,
+      },
+    })
+  }
+
+  function endRequestSpan(span: Span, status: number, size: number | undefined): void {
+    span.setAttribute('http.response.status_code', status)
+    if (size !== undefined) {
+      span.setAttribute('http.response.body.size', size)
+    }
+    // Client spans treat 4xx and 5xx as errors
+    if (status >= 400) {
+      span.setStatus('error', `HTTP ${status}`)
+    }
+    span.end()
+  }
+
+  function failRequestSpan(span: Span, error: unknown): void {
+    span.recordException(error)
+    span.setStatus('error', error instanceof Error ? error.message : String(error))
+    span.end()
+  }
+
+  const restorers: Array<() => void> = []
+
+  // fetch
+  const originalFetch = globalThis.fetch
+  if (typeof originalFetch === 'function') {
+    const instrumentedFetch: typeof fetch = function (
+      this: unknown,
+      input: RequestInfo | URL,
+      init?: RequestInit
+    ): Promise<Response> {
+      const request = input instanceof Request ? input : undefined
+      const url = resolveUrl(request ? request.url : input instanceof URL ? input : String(input))
+
+      if (!shouldTrace(url)) {
+        return originalFetch.call(this, input, init)
+      }
+
+      const method = (init?.method ?? request?.method ?? 'GET').toUpperCase()
+      const span = startRequestSpan(method, url)
+
+      let requestInit = init
+      if (shouldPropagate(url)) {
+        const headers = new Headers(init?.headers ?? request?.headers)
+        headers.set('traceparent', formatTraceparent(span.spanContext()))
+        requestInit = { ...init, headers }
+      }
+
+      return originalFetch.call(this, input, requestInit).then(
+        (response) => {
+          endRequestSpan(span, response.status, parseSize(response.headers.get('content-length')))
+          return response
+        },
+        (error: unknown) => {
+          failRequestSpan(span, error)
+          throw error
+        }
+      )
+    }
+
+    globalThis.fetch = instrumentedFetch
+    restorers.push(() => {
+      if (globalThis.fetch === instrumentedFetch) {
+        globalThis.fetch = originalFetch
+      }
+    })
+  }
+
+  // XMLHttpRequest
+  if (typeof XMLHttpRequest !== 'undefined') {
+    const proto = XMLHttpRequest.prototype
+    const originalOpen = proto.open
+    // `open` is overloaded; forward whatever arguments the caller passed
+    const forwardOpen = originalOpen as (this: XMLHttpRequest, ...args: unknown[]) => void
+    const originalSend = proto.send
+    const requests = new WeakMap<XMLHttpRequest, XhrRequestInfo>()
+
+    proto.open = function (
+      this: XMLHttpRequest,
+      method: string,
+      url: string | URL,
+      ...rest: unknown[]
+    ): void {
+      const resolved = resolveUrl(url)
+      if (resolved) {
+        requests.set(this, { method: method.toUpperCase(), url: resolved })
+      } else {
+        requests.delete(this)
+      }
+      forwardOpen.call(this, method, url, ...rest)
+    } as typeof proto.open
+
+    proto.send = function (
+      this: XMLHttpRequest,
+      body?: Document | XMLHttpRequestBodyInit | null
+    ): void {
+      const info = requests.get(this)
+
+      if (info && shouldTrace(info.url)) {
+        const span = startRequestSpan(info.method, info.url)
+
+        if (shouldPropagate(info.url)) {
+          this.setRequestHeader('traceparent', formatTraceparent(span.spanContext()))
+        }
+
+        this.addEventListener('loadend', () => {
+          if (this.status === 0) {
+            failRequestSpan(span, new Error('Network error or request aborted'))
+          } else {
+            endRequestSpan(span, this.status, parseSize(this.getResponseHeader('content-length')))
+          }
+        })
+      }
+
+      originalSend.call(this, body)
+    }
+
+    restorers.push(() => {
+      proto.open = originalOpen
+      proto.send = originalSend
+    })
+  }
+
+  return () => {
+    enabled = false
+    for (const restore of restorers) {
+      restore()
+    }
+  }
+}
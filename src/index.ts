@@ -22,6 +22,12 @@
  * // Track metrics
  * observability.trackMetric('api.latency', 150, 'good', { endpoint: '/users' })
  *
+ * // Trace operations as spans (nested spans become children)
+ * await observability.withSpan('checkout', async (span) => {
+ *   span.setAttribute('cart.items', 3)
+ *   await submitOrder()
+ * })
+ *
  * // Track errors
  * observability.trackError('api.error', error, { endpoint: '/users' })
  *
@@ -35,18 +41,110 @@
 
 // Types
 export type {
+  AutocaptureConfig,
+  Breadcrumb,
+  BreadcrumbCategory,
+  BreadcrumbConfig,
+  BreadcrumbLevel,
+  ErrorGroupingConfig,
   TelemetryType,
   TelemetryEvent,
   MetricRating,
   ObservabilityConfig,
   ObservabilityInstance,
+  OtlpConfig,
+  Exporter,
+  CircuitState,
+  DeliveryError,
+  DeliveryFailure,
+  DeliveryResult,
+  DropReason,
+  ExporterStats,
+  InternalMetricsConfig,
+  TelemetryStats,
+  ConsentCategory,
+  ConsentConfig,
+  ConsentState,
+  ConsentStatus,
+  EventProcessor,
+  ScrubConfig,
+  Counter,
+  UpDownCounter,
+  Gauge,
+  Histogram,
+  InstrumentKind,
+  InstrumentOptions,
+  HistogramOptions,
+  MetricData,
+  MetricThreshold,
+  HttpInstrumentationConfig,
+  LongTaskOptions,
+  NavigationType,
+  RouteChangeOptions,
+  RouteTrackingConfig,
+  PersistenceConfig,
+  ResourceTimingConfig,
+  SamplingConfig,
+  SessionConfig,
+  UserIdentity,
+  WebVitalsOptions,
+  SamplingRule,
+  StackFrame,
+  Span,
+  SpanContext,
+  SpanData,
+  SpanEvent,
+  SpanKind,
+  SpanOptions,
+  TabCoordinationConfig,
+  SpanStatusCode,
 } from './types'
 
 // Core telemetry
 export { createObservability } from './telemetry'
 
+// Tracing
+export { formatTraceparent, parseTraceparent, generateTraceId, generateSpanId } from './tracing'
+
+// Stack traces
+export { parseStack, isInAppFile } from './stack-trace'
+
+// Event processing
+export { createScrubber } from './scrubber'
+
+// URL utilities
+export { normalizePath } from './url'
+
+// Exporters
+export {
+  createHttpExporter,
+  createOtlpExporter,
+  createConsoleExporter,
+  ExportError,
+} from './exporters'
+export type { HttpExporterOptions, ConsoleExporterOptions } from './exporters'
+
+// OTLP encoding
+export { buildOtlpRequests } from './otlp'
+export type { OtlpRequest, OtlpSignal } from './otlp'
+
 // Session utilities
-export { getSessionId, getCurrentPage, isDevelopment, resetSessionCache } from './session'
+export {
+  createSessionManager,
+  getSessionId,
+  getCurrentPage,
+  isDevelopment,
+  resetSessionCache,
+} from './session'
+export type {
+  SessionEndReason,
+  SessionManager,
+  SessionManagerOptions,
+  SessionRecord,
+} from './session'
 
 // Web Vitals
 export { reportWebVitals } from './web-vitals'
+
+// Main-thread blocking
+export { reportLongTasks } from './long-tasks'
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { installInternalMetrics } from './internal-metrics'
+import { createMeter } from './metrics'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import { createMemoryExporter } from './test-utils'
+import type { TelemetryStats } from './types'
+
+function createStats(overrides: Partial<TelemetryStats> = {}): TelemetryStats {
+  return {
+    queued: 0,
+    sent: 0,
+    dropped: {
+      queue_overflow: 0,
+      beacon_rejected: 0,
+      unload_failed: 0,
+      consent_buffer_overflow: 0,
+      rate_limited: 0,
+      processor_failed: 0,
+      storage_evicted: 0,
+    },
+    failedAttempts: 0,
+    circuit: 'closed',
+    exporters: [],
+    ...overrides,
+  }
+}
+
+describe('internal metrics', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('installInternalMetrics', () => {
+    it('records the change in delivery stats on each interval', () => {
+      const meter = createMeter()
+      let stats = createStats()
+      const stop = installInternalMetrics(meter, () => stats, { interval: 1000 })
+
+      stats = createStats({
+        queued: 3,
+        sent: 10,
+        failedAttempts: 1,
+        dropped: { ...createStats().dropped, queue_overflow: 4 },
+        exporters: [
+          {
+            name: 'http',
+            pending: 3,
+            sent: 10,
+            failedAttempts: 1,
+            consecutiveFailures: 1,
+            circuit: 'open',
+            retryAt: Date.now() + 5000,
+          },
+        ],
+      })
+      vi.advanceTimersByTime(1000)
+      stats = { ...stats, sent: 15 }
+      vi.advanceTimersByTime(1000)
+
+      const values = Object.fromEntries(
+        meter
+          .collect()
+          .map((event) => [`${event.name} ${JSON.stringify(event.properties)}`, event.value])
+      )
+      expect(values).toEqual({
+        'observability.queue.size {}': 3,
+        'observability.events.sent {}': 15,
+        'observability.events.dropped {"reason":"queue_overflow"}': 4,
+        'observability.delivery.failures {}': 1,
+        'observability.circuit.open {"exporter":"http"}': 1,
+      })
+
+      stop()
+      vi.advanceTimersByTime(5000)
+      expect(meter.collect()).toEqual([])
+    })
+  })
+
+  describe('createObservability', () => {
+    const { events: exported, exporter } = createMemoryExporter()
+
+    beforeEach(() => {
+      exported.length = 0
+      resetSessionCache()
+      sessionStorage.clear()
+    })
+
+    it('reports observability.* metrics until cleanup', async () => {
+      const obs = createObservability({
+        batchSize: 1,
+        flushInterval: 100,
+        exporters: [exporter],
+        internalMetrics: { interval: 1000 },
+      })
+
+      obs.trackEvent('first')
+      await vi.advanceTimersByTimeAsync(1000)
+      await vi.advanceTimersByTimeAsync(200)
+
+      expect(exported).toContainEqual(
+        expect.objectContaining({ type: 'metric', name: 'observability.events.sent', value: 1 })
+      )
+
+      obs.cleanup()
+      const count = exported.length
+      await vi.advanceTimersByTimeAsync(5000)
+      expect(exported).toHaveLength(count)
+    })
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * Internal Metrics
+ *
+ * Reports the instance's own delivery health as `observability.*` metrics on
+ * a fixed interval, so telemetry loss can be alerted on like any other
+ * signal. Counters follow the meter's cumulative semantics; each report adds
+ * the change since the previous one.
+ */
+
+import type { Meter } from './metrics'
+import type { DropReason, InternalMetricsConfig, TelemetryStats } from './types'
+
+const DEFAULT_INTERVAL = 60_000
+
+/**
+ * Record delivery stats into the meter every `interval` ms. Returns a
+ * function that stops reporting.
+ */
+export function installInternalMetrics(
+  meter: Meter,
+  getStats: () => TelemetryStats,
+  config: InternalMetricsConfig = {}
+): () => void {
+  const queueSize = meter.gauge('observability.queue.size', {
+    description: 'Events waiting to be flushed or retried',
+    unit: '{event}',
+  })
+  const sent = meter.counter('observability.events.sent', {
+    description: 'Events accepted by exporters',
+    unit: '{event}',
+  })
+  const dropped = meter.counter('observability.events.dropped', {
+    description: 'Events lost rather than delivered, by reason',
+    unit: '{event}',
+  })
+  const failures = meter.counter('observability.delivery.failures', {
+    description: 'Failed export attempts',
+    unit: '{attempt}',
+  })
+  const circuitOpen = meter.gauge('observability.circuit.open', {
+    description: '1 while an exporter is backing off after failures',
+  })
+
+  let previous = getStats()
+
+  function report(): void {
+    const stats = getStats()
+
+    queueSize.record(stats.queued)
+    if (stats.sent > previous.sent) {
+      sent.add(stats.sent - previous.sent)
+    }
+    if (stats.failedAttempts > previous.failedAttempts) {
+      failures.add(stats.failedAttempts - previous.failedAttempts)
+    }
+    for (const reason of Object.keys(stats.dropped) as DropReason[]) {
+      const change = stats.dropped[reason] - previous.dropped[reason]
+      if (change > 0) {
+        dropped.add(change, { reason })
+      }
+    }
+    for (const exporter of stats.exporters) {
+      circuitOpen.record(exporter.circuit === 'open' ? 1 : 0, { exporter: exporter.name })
+    }
+
+    previous = stats
+  }
+
+  const timer = setInterval(report, config.interval ?? DEFAULT_INTERVAL)
+
+  return () => clearInterval(timer)
+}
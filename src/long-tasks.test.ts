@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { reportLongTasks } from './long-tasks'
+import type { ObservabilityInstance } from './types'
+
+type EntryCallback = (list: { getEntries: () => PerformanceEntry[] }) => void
+
+class FakePerformanceObserver {
+  static supportedEntryTypes = ['longtask', 'long-animation-frame']
+  static instances: FakePerformanceObserver[] = []
+
+  type = ''
+  disconnected = false
+
+  constructor(private readonly callback: EntryCallback) {
+    FakePerformanceObserver.instances.push(this)
+  }
+
+  observe(options: { type: string }): void {
+    this.type = options.type
+  }
+
+  disconnect(): void {
+    this.disconnected = true
+  }
+
+  static emit(type: string, entries: Array<Record<string, unknown>>): void {
+    for (const observer of FakePerformanceObserver.instances) {
+      if (observer.type === type && !observer.disconnected) {
+        observer.callback({ getEntries: () => entries as unknown as PerformanceEntry[] })
+      }
+    }
+  }
+}
+
+describe('reportLongTasks', () => {
+  const createMockObservability = () =>
+    ({ trackMetric: vi.fn() }) as unknown as ObservabilityInstance
+
+  beforeEach(() => {
+    FakePerformanceObserver.instances = []
+    FakePerformanceObserver.supportedEntryTypes = ['longtask', 'long-animation-frame']
+    vi.stubGlobal('PerformanceObserver', FakePerformanceObserver)
+    window.history.replaceState(null, '', '/')
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('summarizes long tasks into counts and total blocking time', () => {
+    const obs = createMockObservability()
+    const stop = reportLongTasks(obs)
+
+    FakePerformanceObserver.emit('longtask', [{ duration: 120 }, { duration: 80 }])
+    expect(obs.trackMetric).not.toHaveBeenCalled()
+    stop()
+
+    expect(obs.trackMetric).toHaveBeenCalledWith(
+      'main_thread.blocking_time',
+      100,
+      'good',
+      expect.objectContaining({
+        path: '/',
+        longTasks: 2,
+        longestTask: 120,
+        totalBlockingTime: 100,
+        longAnimationFrames: 0,
+      })
+    )
+    expect(FakePerformanceObserver.instances.every((observer) => observer.disconnected)).toBe(true)
+  })
+
+  it('ranks scripts from long animation frames by total duration', () => {
+    const obs = createMockObservability()
+    const stop = reportLongTasks(obs, { maxOffenders: 2 })
+    const script = (sourceFunctionName: string, duration: number) => ({
+      duration,
+      invoker: 'BUTTON.onclick',
+      invokerType: 'event-listener',
+      sourceURL: 'https://example.com/app.js',
+      sourceFunctionName,
+    })
+
+    FakePerformanceObserver.emit('long-animation-frame', [
+      { duration: 300, blockingDuration: 250, scripts: [script('render', 200), script('log', 20)] },
+      {
+        duration: 700,
+        blockingDuration: 650,
+        scripts: [script('render', 150), script('sort', 400)],
+      },
+    ])
+    stop()
+
+    const [, value, rating, properties] = vi.mocked(obs.trackMetric).mock.calls[0] ?? []
+    expect(value).toBe(900)
+    expect(rating).toBe('poor')
+    expect(properties).toMatchObject({ longAnimationFrames: 2, longestFrame: 700 })
+    expect(properties?.worstScripts).toEqual([
+      {
+        sourceURL: 'https://example.com/app.js',
+        sourceFunctionName: 'sort',
+        invoker: 'BUTTON.onclick',
+        invokerType: 'event-listener',
+        count: 1,
+        totalDuration: 400,
+        maxDuration: 400,
+      },
+      expect.objectContaining({ sourceFunctionName: 'render', count: 2, totalDuration: 350 }),
+    ])
+  })
+
+  it('reports one summary per page', () => {
+    const obs = createMockObservability()
+    const stop = reportLongTasks(obs)
+
+    FakePerformanceObserver.emit('longtask', [{ duration: 60 }])
+    window.history.pushState(null, '', '/reports')
+    FakePerformanceObserver.emit('longtask', [{ duration: 90 }])
+    stop()
+
+    expect(
+      vi.mocked(obs.trackMetric).mock.calls.map(([, value, , props]) => [props?.path, value])
+    ).toEqual([
+      ['/', 10],
+      ['/reports', 40],
+    ])
+  })
+
+  it('reports when the page is hidden', () => {
+    const obs = createMockObservability()
+    const stop = reportLongTasks(obs)
+    const visibility = vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden')
+
+    FakePerformanceObserver.emit('longtask', [{ duration: 70 }])
+    document.dispatchEvent(new Event('visibilitychange'))
+
+    expect(obs.trackMetric).toHaveBeenCalledTimes(1)
+    visibility.mockRestore()
+    stop()
+    expect(obs.trackMetric).toHaveBeenCalledTimes(1)
+  })
+
+  it('does nothing when the entry types are unsupported', () => {
+    FakePerformanceObserver.supportedEntryTypes = []
+    const obs = createMockObservability()
+
+    reportLongTasks(obs)()
+
+    expect(FakePerformanceObserver.instances).toHaveLength(0)
+    expect(obs.trackMetric).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,213 @@
+/**
+ * Long Tasks
+ *
+ * Explains main-thread blocking behind poor INP by observing `longtask` and
+ * `long-animation-frame` entries. Entries are summarized per page into
+ * counts, total blocking time and the scripts responsible for the most
+ * blocking, reported once per page instead of once per entry.
+ */
+
+import type { LongTaskOptions, MetricRating, ObservabilityInstance } from './types'
+
+// Work beyond this budget counts as blocking, as in Total Blocking Time
+const BLOCKING_THRESHOLD = 50
+const DEFAULT_MAX_OFFENDERS = 5
+
+/**
+ * Script attribution on a long animation frame (`PerformanceScriptTiming`).
+ */
+interface ScriptTiming {
+  duration: number
+  invoker?: string
+  invokerType?: string
+  sourceURL?: string
+  sourceFunctionName?: string
+}
+
+interface LongAnimationFrameTiming extends PerformanceEntry {
+  blockingDuration?: number
+  scripts?: ScriptTiming[]
+}
+
+interface Offender {
+  sourceURL: string
+  sourceFunctionName: string
+  invoker: string
+  invokerType: string
+  count: number
+  totalDuration: number
+  maxDuration: number
+}
+
+interface PageSummary {
+  path: string
+  longTasks: number
+  longestTask: number
+  totalBlockingTime: number
+  longAnimationFrames: number
+  longestFrame: number
+  frameBlockingTime: number
+  offenders: Map<string, Offender>
+}
+
+function createSummary(path: string): PageSummary {
+  return {
+    path,
+    longTasks: 0,
+    longestTask: 0,
+    totalBlockingTime: 0,
+    longAnimationFrames: 0,
+    longestFrame: 0,
+    frameBlockingTime: 0,
+    offenders: new Map(),
+  }
+}
+
+/**
+ * Rate total blocking time with the Lighthouse thresholds (200ms / 600ms).
+ */
+function rateBlockingTime(value: number): MetricRating {
+  if (value <= 200) {
+    return 'good'
+  }
+  return value <= 600 ? 'needs-improvement' : 'poor'
+}
+
+function isSupported(type: string): boolean {
+  return (
+    typeof PerformanceObserver !== 'undefined' &&
+    (PerformanceObserver.supportedEntryTypes ?? []).includes(type)
+  )
+}
+
+/**
+ * Report long tasks and long animation frames as one
+ * 'main_thread.blocking_time' metric per page. Summaries are reported when
+ * the page changes, when the document is hidden and when stopped.
+ * Returns a function that stops monitoring.
+ *
+ * @example
+ * ```ts
+ * const stop = reportLongTasks(observability, { maxOffenders: 3 })
+ * ```
+ */
+export function reportLongTasks(
+  observability: ObservabilityInstance,
+  options: LongTaskOptions = {}
+): () => void {
+  if (typeof window === 'undefined') {
+    return () => {}
+  }
+
+  const maxOffenders = options.maxOffenders ?? DEFAULT_MAX_OFFENDERS
+  const observers: PerformanceObserver[] = []
+  let summary = createSummary(window.location.pathname)
+
+  function report(): void {
+    if (summary.longTasks === 0 && summary.longAnimationFrames === 0) {
+      return
+    }
+
+    const worstScripts = [...summary.offenders.values()]
+      .sort((a, b) => b.totalDuration - a.totalDuration)
+      .slice(0, maxOffenders)
+    const blockingTime = Math.max(summary.totalBlockingTime, summary.frameBlockingTime)
+
+    observability.trackMetric(
+      'main_thread.blocking_time',
+      blockingTime,
+      rateBlockingTime(blockingTime),
+      {
+        path: summary.path,
+        longTasks: summary.longTasks,
+        longestTask: summary.longestTask,
+        totalBlockingTime: summary.totalBlockingTime,
+        longAnimationFrames: summary.longAnimationFrames,
+        longestFrame: summary.longestFrame,
+        frameBlockingTime: summary.frameBlockingTime,
+        worstScripts,
+      }
+    )
+    summary = createSummary(summary.path)
+  }
+
+  // Entries belong to the page they were observed on; report the previous page first
+  function currentSummary(): PageSummary {
+    const path = window.location.pathname
+    if (path !== summary.path) {
+      report()
+      summary = createSummary(path)
+    }
+    return summary
+  }
+
+  function recordLongTask(entry: PerformanceEntry): void {
+    const page = currentSummary()
+    page.longTasks++
+    page.longestTask = Math.max(page.longestTask, entry.duration)
+    page.totalBlockingTime += Math.max(0, entry.duration - BLOCKING_THRESHOLD)
+  }
+
+  function recordFrame(entry: LongAnimationFrameTiming): void {
+    const page = currentSummary()
+    page.longAnimationFrames++
+    page.longestFrame = Math.max(page.longestFrame, entry.duration)
+    page.frameBlockingTime += entry.blockingDuration ?? 0
+
+    for (const script of entry.scripts ?? []) {
+      const offender = {
+        sourceURL: script.sourceURL ?? '',
+        sourceFunctionName: script.sourceFunctionName ?? '',
+        invoker: script.invoker ?? '',
+        invokerType: script.invokerType ?? '',
+      }
+      const key = JSON.stringify(offender)
+      const existing = page.offenders.get(key) ?? {
+        ...offender,
+        count: 0,
+        totalDuration: 0,
+        maxDuration: 0,
+      }
+      existing.count++
+      existing.totalDuration += script.duration
+      existing.maxDuration = Math.max(existing.maxDuration, script.duration)
+      page.offenders.set(key, existing)
+    }
+  }
+
+  function observe(type: string, record: (entry: PerformanceEntry) => void): void {
+    if (!isSupported(type)) {
+      return
+    }
+    const observer = new PerformanceObserver((list) => {
+      for (const entry of list.getEntries()) {
+        record(entry)
+      }
+    })
+    observer.observe({ type, buffered: true })
+    observers.push(observer)
+  }
+
+  observe('longtask', recordLongTask)
+  observe('long-animation-frame', recordFrame)
+
+  if (observers.length === 0) {
+    return () => {}
+  }
+
+  const handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      report()
+    }
+  }
+  // On document, so the summary is queued before the window-level unload flush
+  document.addEventListener('visibilitychange', handleVisibilityChange)
+
+  return () => {
+    for (const observer of observers) {
+      observer.disconnect()
+    }
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+    report()
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createMeter } from './metrics'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import { createMemoryExporter } from './test-utils'
+
+describe('metrics', () => {
+  describe('createMeter', () => {
+    it('aggregates counters per attribute set', () => {
+      const meter = createMeter()
+      const requests = meter.counter('http.requests')
+
+      requests.add()
+      requests.add(2, { route: '/users', method: 'GET' })
+      requests.add(3, { method: 'GET', route: '/users' })
+      requests.add(-5, { route: '/users', method: 'GET' })
+
+      const events = meter.collect()
+      expect(events).toHaveLength(2)
+      expect(events.map((e) => [e.value, e.properties])).toEqual([
+        [1, {}],
+        [5, { route: '/users', method: 'GET' }],
+      ])
+      expect(events[0]?.metric?.kind).toBe('counter')
+    })
+
+    it('keeps cumulative values and only reports updated series', () => {
+      const meter = createMeter()
+      const counter = meter.counter('clicks')
+
+      counter.add(1, { button: 'a' })
+      counter.add(1, { button: 'b' })
+      meter.collect()
+
+      counter.add(2, { button: 'a' })
+      const events = meter.collect()
+
+      expect(events).toHaveLength(1)
+      expect(events[0]?.value).toBe(3)
+      expect(meter.collect()).toHaveLength(0)
+    })
+
+    it('lets up-down counters go negative and gauges keep the last value', () => {
+      const meter = createMeter()
+      meter.upDownCounter('active.requests').add(-2)
+      const gauge = meter.gauge('memory.used', { unit: 'By' })
+      gauge.record(100)
+      gauge.record(80)
+
+      const [active, memory] = meter.collect()
+      expect(active?.value).toBe(-2)
+      expect(active?.metric?.kind).toBe('upDownCounter')
+      expect(memory?.value).toBe(80)
+      expect(memory?.metric).toMatchObject({ kind: 'gauge', unit: 'By' })
+    })
+
+    it('buckets histogram observations with upper-inclusive boundaries', () => {
+      const meter = createMeter()
+      const histogram = meter.histogram('render.duration', { unit: 'ms', boundaries: [10, 50] })
+
+      for (const value of [5, 10, 20, 50, 70]) {
+        histogram.record(value, { component: 'List' })
+      }
+
+      const [event] = meter.collect()
+      expect(event?.value).toBe(155)
+      expect(event?.metric).toMatchObject({
+        kind: 'histogram',
+        count: 5,
+        sum: 155,
+        min: 5,
+        max: 70,
+        boundaries: [10, 50],
+        bucketCounts: [2, 2, 1],
+      })
+    })
+
+    it('returns the same instrument for a repeated name', () => {
+      const meter = createMeter()
+      meter.counter('shared').add(1)
+      meter.counter('shared').add(1)
+
+      expect(meter.collect()[0]?.value).toBe(2)
+    })
+
+    it('ignores recordings on a name registered with another kind', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const meter = createMeter()
+      meter.counter('conflict').add(1)
+      meter.histogram('conflict').record(5)
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('already registered as a counter'))
+      expect(meter.collect()).toHaveLength(1)
+      warn.mockRestore()
+    })
+  })
+
+  describe('observability integration', () => {
+    beforeEach(() => {
+      resetSessionCache()
+      sessionStorage.clear()
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
+    it('reports one data point per series on each flush', async () => {
+      const { events: exported, exporter } = createMemoryExporter()
+      const obs = createObservability({
+        batchSize: 10,
+        flushInterval: 1000,
+        exporters: [exporter],
+      })
+
+      const histogram = obs.histogram('render.duration', { unit: 'ms' })
+      for (let i = 0; i < 500; i++) {
+        histogram.record(i % 20, { component: 'Row' })
+      }
+
+      // Recordings schedule an interval flush without filling the event queue
+      await vi.advanceTimersByTimeAsync(1100)
+
+      expect(exported).toHaveLength(1)
+      expect(exported[0]).toMatchObject({
+        type: 'metric',
+        name: 'render.duration',
+        properties: { component: 'Row' },
+        metric: { kind: 'histogram', count: 500 },
+      })
+      expect(exported[0]?.sessionId).toBeTypeOf('string')
+
+      obs.cleanup()
+    })
+  })
+})
@@ -0,0 +1,221 @@
+/**
+ * Metric Aggregation
+ *
+ * Client-side instruments that aggregate observations in memory per
+ * name + attribute set and are collected once per flush, following
+ * Prometheus semantics: counters and histograms are cumulative since the
+ * series started, gauges report the last value.
+ */
+
+import type {
+  Counter,
+  Gauge,
+  Histogram,
+  HistogramOptions,
+  InstrumentKind,
+  InstrumentOptions,
+  MetricData,
+  TelemetryEvent,
+  UpDownCounter,
+} from './types'
+
+/**
+ * Default explicit bucket boundaries (milliseconds), matching OpenTelemetry's defaults.
+ */
+export const DEFAULT_HISTOGRAM_BOUNDARIES = [
+  0, 5, 10, 25, 50, 75, 100, 250, 500, 750, 1000, 2500, 5000, 7500, 10000,
+]
+
+type MetricAttributes = Record<string, string | number | boolean>
+
+interface Series {
+  attributes: MetricAttributes
+  startTime: number
+  value: number
+  count: number
+  min: number
+  max: number
+  bucketCounts: number[]
+  dirty: boolean
+}
+
+interface Instrument {
+  kind: InstrumentKind
+  options: HistogramOptions
+  boundaries: number[]
+  series: Map<string, Series>
+}
+
+export interface Meter {
+  counter: (name: string, options?: InstrumentOptions) => Counter
+  upDownCounter: (name: string, options?: InstrumentOptions) => UpDownCounter
+  gauge: (name: string, options?: InstrumentOptions) => Gauge
+  histogram: (name: string, options?: HistogramOptions) => Histogram
+  /** Snapshot every series updated since the previous collection */
+  collect: () => Array<Omit<TelemetryEvent, 'timestamp' | 'sessionId' | 'page'>>
+  /** Drop every recorded series; instruments stay registered and keep working */
+  reset: () => void
+}
+
+/**
+ * Stable key for an attribute set, independent of property order.
+ */
+function seriesKey(attributes: MetricAttributes): string {
+  return JSON.stringify(
+    Object.keys(attributes)
+      .sort()
+      .map((key) => [key, attributes[key]])
+  )
+}
+
+/**
+ * Create a meter. `onRecord` runs after every observation so the caller can
+ * make sure a flush is scheduled.
+ */
+export function createMeter(onRecord: () => void = () => {}): Meter {
+  const instruments = new Map<string, Instrument>()
+
+  function getInstrument(
+    name: string,
+    kind: InstrumentKind,
+    options: HistogramOptions
+  ): Instrument | undefined {
+    const existing = instruments.get(name)
+    if (existing) {
+      if (existing.kind !== kind) {
+        console.warn(`[Observability] Metric "${name}" is already registered as a ${existing.kind}`)
+        return undefined
+      }
+      return existing
+    }
+
+    const boundaries = [...(options.boundaries ?? DEFAULT_HISTOGRAM_BOUNDARIES)].sort(
+      (a, b) => a - b
+    )
+    const instrument: Instrument = { kind, options, boundaries, series: new Map() }
+    instruments.set(name, instrument)
+    return instrument
+  }
+
+  function record(
+    instrument: Instrument | undefined,
+    value: number,
+    attributes: MetricAttributes = {}
+  ): void {
+    if (!instrument || !Number.isFinite(value)) {
+      return
+    }
+    // Counters are monotonic: negative increments are invalid and ignored
+    if (instrument.kind === 'counter' && value < 0) {
+      return
+    }
+
+    const key = seriesKey(attributes)
+    let series = instrument.series.get(key)
+    if (!series) {
+      series = {
+        attributes: { ...attributes },
+        startTime: Date.now(),
+        value: 0,
+        count: 0,
+        min: Number.POSITIVE_INFINITY,
+        max: Number.NEGATIVE_INFINITY,
+        bucketCounts: new Array(instrument.boundaries.length + 1).fill(0),
+        dirty: false,
+      }
+      instrument.series.set(key, series)
+    }
+
+    switch (instrument.kind) {
+      case 'counter':
+      case 'upDownCounter':
+        series.value += value
+        break
+      case 'gauge':
+        series.value = value
+        break
+      case 'histogram': {
+        series.value += value
+        series.count++
+        series.min = Math.min(series.min, value)
+        series.max = Math.max(series.max, value)
+        // Buckets are upper-inclusive: (previous boundary, boundary]
+        const bucket = instrument.boundaries.findIndex((boundary) => value <= boundary)
+        const index = bucket === -1 ? instrument.boundaries.length : bucket
+        series.bucketCounts[index] = (series.bucketCounts[index] ?? 0) + 1
+        break
+      }
+    }
+
+    series.dirty = true
+    onRecord()
+  }
+
+  function toMetricData(instrument: Instrument, series: Series): MetricData {
+    const data: MetricData = {
+      kind: instrument.kind,
+      startTime: series.startTime,
+      unit: instrument.options.unit,
+      description: instrument.options.description,
+    }
+    if (instrument.kind === 'histogram') {
+      data.count = series.count
+      data.sum = series.value
+      data.min = series.min
+      data.max = series.max
+      data.boundaries = instrument.boundaries
+      data.bucketCounts = [...series.bucketCounts]
+    }
+    return data
+  }
+
+  return {
+    counter(name: string, options: InstrumentOptions = {}): Counter {
+      const instrument = getInstrument(name, 'counter', options)
+      return { add: (value, attributes) => record(instrument, value ?? 1, attributes) }
+    },
+
+    upDownCounter(name: string, options: InstrumentOptions = {}): UpDownCounter {
+      const instrument = getInstrument(name, 'upDownCounter', options)
+      return { add: (value, attributes) => record(instrument, value, attributes) }
+    },
+
+    gauge(name: string, options: InstrumentOptions = {}): Gauge {
+      const instrument = getInstrument(name, 'gauge', options)
+      return { record: (value, attributes) => record(instrument, value, attributes) }
+    },
+
+    histogram(name: string, options: HistogramOptions = {}): Histogram {
+      const instrument = getInstrument(name, 'histogram', options)
+      return { record: (value, attributes) => record(instrument, value, attributes) }
+    },
+
+    collect() {
+      const events: Array<Omit<TelemetryEvent, 'timestamp' | 'sessionId' | 'page'>> = []
+
+      for (const [name, instrument] of instruments) {
+        for (const series of instrument.series.values()) {
+          if (!series.dirty) {
+            continue
+          }
+          series.dirty = false
+          events.push({
+            type: 'metric',
+            name,
+            value: series.value,
+            properties: { ...series.attributes },
+            metric: toMetricData(instrument, series),
+          })
+        }
+      }
+
+      return events
+    },
+
+    reset(): void {
+      for (const instrument of instruments.values()) {
+        instrument.series.clear()
+      }
+    },
+  }
+}
@@ -0,0 +1,189 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createSymbolicator, parseSourceMap } from './node'
+import type { TelemetryEvent } from './types'
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+function encodeVlq(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1
+  let result = ''
+  do {
+    let digit = vlq & 31
+    vlq >>>= 5
+    if (vlq > 0) {
+      digit |= 32
+    }
+    result += BASE64[digit]
+  } while (vlq > 0)
+  return result
+}
+
+/**
+ * Encode absolute [generatedColumn, source, originalLine, originalColumn, name?]
+ * segments per generated line (all 0-based) into a mappings string.
+ */
+function encodeMappings(lines: number[][][]): string {
+  let previous = [0, 0, 0, 0, 0]
+  return lines
+    .map((segments) => {
+      previous[0] = 0
+      return segments
+        .map((segment) => {
+          const encoded = segment.map((value, index) => encodeVlq(value - (previous[index] ?? 0)))
+          previous = [...segment, ...previous.slice(segment.length)]
+          return encoded.join('')
+        })
+        .join(',')
+    })
+    .join(';')
+}
+
+const map = {
+  version: 3,
+  file: 'index-abc.js',
+  sourceRoot: '',
+  sources: ['../src/users.ts', '../src/main.ts'],
+  names: ['loadUsers', 'render'],
+  mappings: encodeMappings([
+    // line 1: column 0 -> users.ts 10:2 (loadUsers), column 40 -> main.ts 3:0 (render)
+    [
+      [0, 0, 9, 2, 0],
+      [40, 1, 2, 0, 1],
+    ],
+    // line 2: column 4 -> users.ts 20:4
+    [[4, 0, 19, 4]],
+  ]),
+}
+
+describe('node', () => {
+  describe('parseSourceMap', () => {
+    it('looks up the closest preceding segment', () => {
+      const consumer = parseSourceMap(map)
+
+      expect(consumer.originalPositionFor(1, 1)).toEqual({
+        source: '../src/users.ts',
+        line: 10,
+        column: 3,
+        name: 'loadUsers',
+      })
+      expect(consumer.originalPositionFor(1, 55)).toEqual({
+        source: '../src/main.ts',
+        line: 3,
+        column: 1,
+        name: 'render',
+      })
+      expect(consumer.originalPositionFor(2, 10)).toEqual({
+        source: '../src/users.ts',
+        line: 20,
+        column: 5,
+        name: undefined,
+      })
+    })
+
+    it('returns undefined outside mapped ranges', () => {
+      const consumer = parseSourceMap(map)
+      expect(consumer.originalPositionFor(2, 1)).toBeUndefined()
+      expect(consumer.originalPositionFor(5, 1)).toBeUndefined()
+    })
+
+    it('rejects unsupported versions', () => {
+      expect(() => parseSourceMap({ ...map, version: 2 })).toThrow('Unsupported source map version')
+    })
+  })
+
+  describe('createSymbolicator', () => {
+    let dir: string
+
+    beforeAll(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'observability-maps-'))
+      await mkdir(join(dir, 'assets'))
+      await writeFile(join(dir, 'assets', 'index-abc.js.map'), JSON.stringify(map))
+    })
+
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it('resolves frames against maps found by URL path', async () => {
+      const symbolicator = createSymbolicator({ sourceMapDir: dir })
+
+      const [resolved, vendor] = await symbolicator.symbolicate([
+        { file: 'https://app.example.com/assets/index-abc.js', line: 1, column: 45, inApp: true },
+        { file: 'https://cdn.example.com/vendor.js', line: 1, column: 1, inApp: false },
+      ])
+
+      expect(resolved?.original).toEqual({
+        source: '../src/main.ts',
+        line: 3,
+        column: 1,
+        name: 'render',
+      })
+      expect(vendor?.original).toBeUndefined()
+    })
+
+    it('falls back to the bare file name', async () => {
+      await writeFile(join(dir, 'chunk.js.map'), JSON.stringify(map))
+      const symbolicator = createSymbolicator({ sourceMapDir: dir })
+
+      const [frame] = await symbolicator.symbolicate([
+        { file: 'https://app.example.com/static/js/chunk.js', line: 2, column: 5, inApp: true },
+      ])
+
+      expect(frame?.original?.line).toBe(20)
+    })
+
+    it('never reads outside the source map directory', async () => {
+      const symbolicator = createSymbolicator({
+        sourceMapDir: join(dir, 'assets'),
+        resolveMapPaths: () => ['../chunk.js.map'],
+      })
+
+      const [frame] = await symbolicator.symbolicate([
+        { file: 'https://app.example.com/chunk.js', line: 2, column: 5, inApp: true },
+      ])
+
+      expect(frame?.original).toBeUndefined()
+    })
+
+    it('reads maps whose names start with two dots', async () => {
+      await writeFile(join(dir, 'assets', '..chunk.js.map'), JSON.stringify(map))
+      const symbolicator = createSymbolicator({
+        sourceMapDir: join(dir, 'assets'),
+        resolveMapPaths: () => ['..chunk.js.map'],
+      })
+
+      const [frame] = await symbolicator.symbolicate([
+        { file: 'https://app.example.com/chunk.js', line: 2, column: 5, inApp: true },
+      ])
+
+      expect(frame?.original?.line).toBe(20)
+    })
+
+    it('symbolicates error events', async () => {
+      const symbolicator = createSymbolicator({ sourceMapDir: dir })
+      const event: TelemetryEvent = {
+        type: 'error',
+        name: 'exception',
+        timestamp: 0,
+        sessionId: 's',
+        page: '/',
+        properties: {
+          message: 'boom',
+          frames: [{ file: '/assets/index-abc.js', line: 1, column: 1, inApp: true }],
+        },
+      }
+
+      const result = await symbolicator.symbolicateEvent(event)
+
+      expect(result.properties?.message).toBe('boom')
+      expect((result.properties?.frames as Array<{ original?: unknown }>)[0]?.original).toMatchObject({
+        source: '../src/users.ts',
+        line: 10,
+      })
+    })
+  })
+})
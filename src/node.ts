@@ -0,0 +1,129 @@
+/**
+ * @pleme/observability/node
+ *
+ * Server-side utilities for the BFF or CLI tooling. This entry reads from the
+ * filesystem and must not be bundled for the browser.
+ *
+ * @example
+ * ```ts
+ * import { createSymbolicator } from '@pleme/observability/node'
+ *
+ * const symbolicator = createSymbolicator({ sourceMapDir: './dist' })
+ * const resolved = await symbolicator.symbolicateEvent(errorEvent)
+ * ```
+ */
+
+/// <reference types="node" />
+
+import { readFile } from 'node:fs/promises'
+import { basename, isAbsolute, join, relative, resolve, sep } from 'node:path'
+import type { StackFrame, TelemetryEvent } from './types'
+import { parseSourceMap, type OriginalPosition, type SourceMapConsumer } from './source-map'
+
+export interface SymbolicatorOptions {
+  /** Directory holding the build output and its `.map` files (e.g. `dist`) */
+  sourceMapDir: string
+  /**
+   * Map a frame's file URL to candidate `.map` paths relative to `sourceMapDir`.
+   * Defaults to the URL path (`/assets/index-abc.js` -> `assets/index-abc.js.map`)
+   * followed by the bare file name.
+   */
+  resolveMapPaths?: (file: string) => string[]
+}
+
+export interface SymbolicatedFrame extends StackFrame {
+  /** Original source location, when a source map covered the frame */
+  original?: OriginalPosition | undefined
+}
+
+export interface Symbolicator {
+  /** Resolve original locations for parsed frames; unresolvable frames pass through */
+  symbolicate: (frames: StackFrame[]) => Promise<SymbolicatedFrame[]>
+  /** Symbolicate the `frames` property of an 'error' event */
+  symbolicateEvent: (event: TelemetryEvent) => Promise<TelemetryEvent>
+}
+
+function defaultMapPaths(file: string): string[] {
+  let pathname = file
+  try {
+    pathname = new URL(file).pathname
+  } catch {
+    // Not a URL: treat as a path
+  }
+  const trimmed = pathname.replace(/^\/+/, '')
+  const name = basename(trimmed)
+  return trimmed === name ? [`${name}.map`] : [`${trimmed}.map`, `${name}.map`]
+}
+
+/**
+ * Create a symbolicator that resolves frames against local source maps.
+ * Parsed maps are cached for the lifetime of the symbolicator.
+ */
+export function createSymbolicator(options: SymbolicatorOptions): Symbolicator {
+  const root = resolve(options.sourceMapDir)
+  const resolveMapPaths = options.resolveMapPaths ?? defaultMapPaths
+  const cache = new Map<string, Promise<SourceMapConsumer | undefined>>()
+
+  async function loadMap(path: string): Promise<SourceMapConsumer | undefined> {
+    const fullPath = resolve(join(root, path))
+    // Never read outside the source map directory; on Windows a path on another drive
+    // has no relative form and comes back absolute
+    const fromRoot = relative(root, fullPath)
+    if (fromRoot === '..' || fromRoot.startsWith(`..${sep}`) || isAbsolute(fromRoot)) {
+      return undefined
+    }
+    try {
+      return parseSourceMap(await readFile(fullPath, 'utf8'))
+    } catch {
+      return undefined
+    }
+  }
+
+  async function findMap(file: string): Promise<SourceMapConsumer | undefined> {
+    let pending = cache.get(file)
+    if (!pending) {
+      pending = (async () => {
+        for (const path of resolveMapPaths(file)) {
+          const map = await loadMap(path)
+          if (map) {
+            return map
+          }
+        }
+        return undefined
+      })()
+      cache.set(file, pending)
+    }
+    return pending
+  }
+
+  async function symbolicateFrame(frame: StackFrame): Promise<SymbolicatedFrame> {
+    if (!frame.file || frame.line === undefined || frame.column === undefined) {
+      return frame
+    }
+    const map = await findMap(frame.file)
+    const original = map?.originalPositionFor(frame.line, frame.column)
+    return original ? { ...frame, original } : frame
+  }
+
+  async function symbolicate(frames: StackFrame[]): Promise<SymbolicatedFrame[]> {
+    return Promise.all(frames.map(symbolicateFrame))
+  }
+
+  return {
+    symbolicate,
+
+    async symbolicateEvent(event: TelemetryEvent): Promise<TelemetryEvent> {
+      const frames = event.properties?.frames
+      if (event.type !== 'error' || !Array.isArray(frames)) {
+        return event
+      }
+      return {
+        ...event,
+        properties: { ...event.properties, frames: await symbolicate(frames as StackFrame[]) },
+      }
+    },
+  }
+}
+
+export { parseSourceMap } from './source-map'
+export type { OriginalPosition, RawSourceMap, SourceMapConsumer } from './source-map'
@@ -0,0 +1,392 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest'
+import { createServer, type IncomingMessage, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { buildOtlpRequests } from './otlp'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import type { OtlpConfig, TelemetryEvent } from './types'
+
+const otlpConfig: OtlpConfig = {
+  endpoint: 'http://collector:4318/',
+  serviceName: 'web-app',
+  resourceAttributes: { 'deployment.environment': 'test' },
+}
+
+const baseEvent = {
+  timestamp: 1_700_000_000_000,
+  sessionId: 'session-1',
+  page: '/dashboard',
+}
+
+interface KeyValue {
+  key: string
+  value: unknown
+}
+
+interface LogRecord {
+  timeUnixNano: string
+  severityText: string
+  severityNumber: number
+  body: unknown
+  attributes: KeyValue[]
+}
+
+interface DataPoint {
+  asDouble?: number
+  [field: string]: unknown
+}
+
+interface Metric {
+  name: string
+  unit?: string
+  gauge?: { dataPoints: DataPoint[] }
+  sum?: { isMonotonic: boolean; aggregationTemporality: number; dataPoints: DataPoint[] }
+  histogram?: { dataPoints: DataPoint[] }
+}
+
+interface Span {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  kind: number
+  startTimeUnixNano: string
+  endTimeUnixNano: string
+  status?: unknown
+  events?: unknown[]
+}
+
+/** The parts of OTLP/HTTP JSON request bodies these tests inspect */
+interface Payload {
+  resourceLogs?: Array<{
+    resource: { attributes: KeyValue[] }
+    scopeLogs: Array<{ logRecords: LogRecord[] }>
+  }>
+  resourceMetrics?: Array<{ scopeMetrics: Array<{ metrics: Metric[] }> }>
+  resourceSpans?: Array<{ scopeSpans: Array<{ spans: Span[] }> }>
+}
+
+function defined<T>(value: T | undefined, what: string): T {
+  if (value === undefined) {
+    throw new Error(`Expected ${what} in the OTLP payload`)
+  }
+  return value
+}
+
+function resourceOf(body: unknown): { attributes: KeyValue[] } {
+  return defined((body as Payload).resourceLogs?.[0]?.resource, 'a resource')
+}
+
+function logRecordOf(body: unknown): LogRecord {
+  return defined((body as Payload).resourceLogs?.[0]?.scopeLogs[0]?.logRecords[0], 'a log record')
+}
+
+function metricsOf(body: unknown): Metric[] {
+  return defined((body as Payload).resourceMetrics?.[0]?.scopeMetrics[0]?.metrics, 'metrics')
+}
+
+function spanOf(body: unknown): Span {
+  return defined((body as Payload).resourceSpans?.[0]?.scopeSpans[0]?.spans[0], 'a span')
+}
+
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.readAsText(blob)
+  })
+}
+
+function attribute(attributes: Array<{ key: string; value: unknown }>, key: string): unknown {
+  return attributes.find((a) => a.key === key)?.value
+}
+
+describe('otlp', () => {
+  describe('buildOtlpRequests', () => {
+    it('routes each telemetry type to its OTLP signal', () => {
+      const events: TelemetryEvent[] = [
+        { ...baseEvent, type: 'metric', name: 'LCP', value: 1200, rating: 'good' },
+        { ...baseEvent, type: 'event', name: 'button_clicked' },
+        { ...baseEvent, type: 'error', name: 'api.error', properties: { message: 'boom' } },
+        { ...baseEvent, type: 'trace', name: 'checkout' },
+      ]
+
+      const requests = buildOtlpRequests(events, otlpConfig)
+
+      expect(requests.map((r) => r.url)).toEqual([
+        'http://collector:4318/v1/logs',
+        'http://collector:4318/v1/metrics',
+        'http://collector:4318/v1/traces',
+      ])
+    })
+
+    it('omits signals without events', () => {
+      const requests = buildOtlpRequests(
+        [{ ...baseEvent, type: 'event', name: 'only_logs' }],
+        otlpConfig
+      )
+      expect(requests.map((r) => r.signal)).toEqual(['logs'])
+    })
+
+    it('attaches resource attributes', () => {
+      const [request] = buildOtlpRequests(
+        [{ ...baseEvent, type: 'event', name: 'test' }],
+        otlpConfig
+      )
+      const resource = resourceOf(request?.body)
+
+      expect(attribute(resource.attributes, 'service.name')).toEqual({ stringValue: 'web-app' })
+      expect(attribute(resource.attributes, 'deployment.environment')).toEqual({
+        stringValue: 'test',
+      })
+    })
+
+    it('maps errors to ERROR log records with exception attributes', () => {
+      const [request] = buildOtlpRequests(
+        [
+          {
+            ...baseEvent,
+            type: 'error',
+            name: 'api.error',
+            properties: {
+              message: 'boom',
+              stack: 'Error: boom\n    at x',
+              errorType: 'TypeError',
+              endpoint: '/users',
+            },
+          },
+        ],
+        otlpConfig
+      )
+      const record = logRecordOf(request?.body)
+
+      expect(record.severityText).toBe('ERROR')
+      expect(record.severityNumber).toBe(17)
+      expect(record.body).toEqual({ stringValue: 'boom' })
+      expect(record.timeUnixNano).toBe('1700000000000000000')
+      expect(attribute(record.attributes, 'exception.message')).toEqual({ stringValue: 'boom' })
+      expect(attribute(record.attributes, 'exception.type')).toEqual({ stringValue: 'TypeError' })
+      expect(attribute(record.attributes, 'endpoint')).toEqual({ stringValue: '/users' })
+      expect(attribute(record.attributes, 'session.id')).toEqual({ stringValue: 'session-1' })
+      expect(attribute(record.attributes, 'url.path')).toEqual({ stringValue: '/dashboard' })
+    })
+
+    it('carries the sample rate for re-weighting', () => {
+      const [request] = buildOtlpRequests(
+        [{ ...baseEvent, type: 'event', name: 'click', sampleRate: 0.25 }],
+        otlpConfig
+      )
+      const record = logRecordOf(request?.body)
+
+      expect(attribute(record.attributes, 'sample.rate')).toEqual({ doubleValue: 0.25 })
+    })
+
+    it('groups metric observations by name into gauge data points', () => {
+      const [request] = buildOtlpRequests(
+        [
+          { ...baseEvent, type: 'metric', name: 'api.latency', value: 10 },
+          { ...baseEvent, type: 'metric', name: 'api.latency', value: 20.5 },
+          { ...baseEvent, type: 'metric', name: 'CLS', value: 0.1 },
+        ],
+        otlpConfig
+      )
+      const metrics = metricsOf(request?.body)
+
+      expect(metrics).toHaveLength(2)
+      expect(metrics[0]?.name).toBe('api.latency')
+      expect(metrics[0]?.gauge?.dataPoints.map((point) => point.asDouble)).toEqual([10, 20.5])
+    })
+
+    it('maps aggregated instruments to cumulative sums and histograms', () => {
+      const [request] = buildOtlpRequests(
+        [
+          {
+            ...baseEvent,
+            type: 'metric',
+            name: 'http.requests',
+            value: 7,
+            metric: { kind: 'counter', startTime: 1_699_999_000_000, unit: '{request}' },
+          },
+          {
+            ...baseEvent,
+            type: 'metric',
+            name: 'render.duration',
+            value: 30,
+            properties: { component: 'List' },
+            metric: {
+              kind: 'histogram',
+              startTime: 1_699_999_000_000,
+              count: 3,
+              sum: 30,
+              min: 5,
+              max: 15,
+              boundaries: [10],
+              bucketCounts: [2, 1],
+            },
+          },
+        ],
+        otlpConfig
+      )
+      const [counter, histogram] = metricsOf(request?.body)
+
+      expect(counter?.unit).toBe('{request}')
+      expect(counter?.sum?.isMonotonic).toBe(true)
+      expect(counter?.sum?.aggregationTemporality).toBe(2)
+      expect(counter?.sum?.dataPoints[0]).toMatchObject({
+        asDouble: 7,
+        startTimeUnixNano: '1699999000000000000',
+      })
+      expect(histogram?.histogram?.dataPoints[0]).toMatchObject({
+        count: '3',
+        sum: 30,
+        min: 5,
+        max: 15,
+        bucketCounts: ['2', '1'],
+        explicitBounds: [10],
+      })
+    })
+
+    it('maps trace events to spans with valid identifiers', () => {
+      const [request] = buildOtlpRequests(
+        [{ ...baseEvent, type: 'trace', name: 'checkout', value: 250 }],
+        otlpConfig
+      )
+      const span = spanOf(request?.body)
+
+      expect(span.traceId).toMatch(/^[0-9a-f]{32}$/)
+      expect(span.spanId).toMatch(/^[0-9a-f]{16}$/)
+      expect(span.startTimeUnixNano).toBe('1699999999750000000')
+      expect(span.endTimeUnixNano).toBe('1700000000000000000')
+    })
+  })
+
+  describe('span data', () => {
+    it('uses span identifiers, parent, kind and status', () => {
+      const [request] = buildOtlpRequests(
+        [
+          {
+            ...baseEvent,
+            type: 'trace',
+            name: 'GET /users',
+            value: 120,
+            span: {
+              traceId: 'a'.repeat(32),
+              spanId: 'b'.repeat(16),
+              parentSpanId: 'c'.repeat(16),
+              kind: 'client',
+              startTime: 1_700_000_000_000,
+              endTime: 1_700_000_000_120.5,
+              status: { code: 'error', message: 'timeout' },
+              events: [{ name: 'retry', timestamp: 1_700_000_000_060 }],
+            },
+          },
+        ],
+        otlpConfig
+      )
+      const span = spanOf(request?.body)
+
+      expect(span.traceId).toBe('a'.repeat(32))
+      expect(span.parentSpanId).toBe('c'.repeat(16))
+      expect(span.kind).toBe(3)
+      expect(span.endTimeUnixNano).toBe('1700000000120500000')
+      expect(span.status).toEqual({ code: 2, message: 'timeout' })
+      expect(span.events).toEqual([
+        { timeUnixNano: '1700000000060000000', name: 'retry', attributes: [] },
+      ])
+    })
+  })
+
+  describe('delivery to a collector', () => {
+    let server: Server
+    let endpoint: string
+    const received: Array<{ path: string; contentType: string; body: unknown }> = []
+
+    function readBody(req: IncomingMessage): Promise<string> {
+      return new Promise((resolve) => {
+        let data = ''
+        req.on('data', (chunk) => {
+          data += chunk
+        })
+        req.on('end', () => resolve(data))
+      })
+    }
+
+    beforeAll(async () => {
+      server = createServer(async (req, res) => {
+        received.push({
+          path: req.url ?? '',
+          contentType: req.headers['content-type'] ?? '',
+          body: JSON.parse(await readBody(req)),
+        })
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end('{}')
+      })
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+      endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    beforeEach(() => {
+      received.length = 0
+      resetSessionCache()
+      sessionStorage.clear()
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('posts each signal to its OTLP path via fetch', async () => {
+      const obs = createObservability({
+        batchSize: 3,
+        otlp: { endpoint, serviceName: 'web-app' },
+      })
+
+      obs.trackEvent('button_clicked', { buttonId: 'submit' })
+      obs.trackMetric('api.latency', 150, 'good')
+      obs.trackTrace('checkout')
+
+      await vi.waitFor(() => expect(received).toHaveLength(3))
+
+      expect(received.map((r) => r.path).sort()).toEqual(['/v1/logs', '/v1/metrics', '/v1/traces'])
+      expect(received.every((r) => r.contentType === 'application/json')).toBe(true)
+
+      const logs = received.find((r) => r.path === '/v1/logs')?.body
+      expect(logRecordOf(logs).body).toEqual({
+        stringValue: 'button_clicked',
+      })
+
+      obs.cleanup()
+    })
+
+    it('sends OTLP payloads through the beacon path on unload', async () => {
+      const sendBeacon = vi.fn().mockReturnValue(true)
+      Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true })
+
+      const obs = createObservability({
+        batchSize: 100,
+        flushInterval: 60000,
+        otlp: { endpoint, serviceName: 'web-app' },
+      })
+
+      obs.trackError('api.error', new Error('boom'))
+      obs.trackMetric('LCP', 1200, 'good')
+      window.dispatchEvent(new Event('beforeunload'))
+
+      expect(sendBeacon).toHaveBeenCalledTimes(2)
+      expect(sendBeacon.mock.calls.map((call) => call[0])).toEqual([
+        `${endpoint}/v1/logs`,
+        `${endpoint}/v1/metrics`,
+      ])
+
+      const blob = sendBeacon.mock.calls[0]?.[1] as Blob
+      const body = JSON.parse(await readBlob(blob))
+      expect(logRecordOf(body).severityText).toBe('ERROR')
+
+      obs.cleanup()
+      Reflect.deleteProperty(navigator, 'sendBeacon')
+    })
+  })
+})
@@ -0,0 +1,316 @@
+/**
+ * OTLP/HTTP JSON Encoding
+ *
+ * Maps telemetry events onto OpenTelemetry Protocol payloads so the library
+ * can deliver straight to an OpenTelemetry Collector:
+ * - 'metric' -> /v1/metrics (gauges, or sums/histograms for aggregated instruments)
+ * - 'event' / 'error' -> /v1/logs (log records)
+ * - 'trace' -> /v1/traces (spans)
+ */
+
+import type { OtlpConfig, SpanKind, SpanStatusCode, TelemetryEvent } from './types'
+import { generateSpanId, generateTraceId } from './tracing'
+
+const SCOPE = { name: '@pleme-io/observability' }
+
+// OTLP severity numbers (see the OpenTelemetry logs data model)
+const SEVERITY_INFO = 9
+const SEVERITY_ERROR = 17
+
+// OTLP span kind and status code enums
+const SPAN_KINDS: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+}
+const STATUS_CODES: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 }
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } }
+  | { kvlistValue: { values: OtlpKeyValue[] } }
+
+interface OtlpKeyValue {
+  key: string
+  value: OtlpAnyValue
+}
+
+export type OtlpSignal = 'logs' | 'metrics' | 'traces'
+
+export interface OtlpRequest {
+  signal: OtlpSignal
+  /** Full collector URL for the signal, e.g. `https://collector/v1/logs` */
+  url: string
+  /** OTLP/HTTP JSON request body */
+  body: Record<string, unknown>
+  /** Events encoded in the body */
+  events: TelemetryEvent[]
+}
+
+/**
+ * Convert a millisecond epoch timestamp into the nanosecond string form
+ * OTLP JSON uses for fixed64 fields.
+ */
+function toUnixNano(ms: number): string {
+  const whole = Math.floor(ms)
+  const fraction = Math.round((ms - whole) * 1_000_000)
+  return (BigInt(whole) * 1_000_000n + BigInt(fraction)).toString()
+}
+
+function toAnyValue(value: unknown): OtlpAnyValue | undefined {
+  if (value === null || value === undefined) {
+    return undefined
+  }
+  if (typeof value === 'string') {
+    return { stringValue: value }
+  }
+  if (typeof value === 'boolean') {
+    return { boolValue: value }
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+  }
+  if (typeof value === 'bigint') {
+    return { intValue: value.toString() }
+  }
+  if (Array.isArray(value)) {
+    return {
+      arrayValue: {
+        values: value.map(toAnyValue).filter((v): v is OtlpAnyValue => v !== undefined),
+      },
+    }
+  }
+  if (value instanceof Error) {
+    return { stringValue: `${value.name}: ${value.message}` }
+  }
+  if (typeof value === 'object') {
+    return { kvlistValue: { values: toKeyValues(value as Record<string, unknown>) } }
+  }
+  return { stringValue: String(value) }
+}
+
+function toKeyValues(record: Record<string, unknown>): OtlpKeyValue[] {
+  const result: OtlpKeyValue[] = []
+  for (const [key, raw] of Object.entries(record)) {
+    const value = toAnyValue(raw)
+    if (value) {
+      result.push({ key, value })
+    }
+  }
+  return result
+}
+
+/**
+ * Attributes shared by every signal: the event properties plus session, user, page and sample rate.
+ */
+function eventAttributes(
+  event: TelemetryEvent,
+  extra: Record<string, unknown> = {}
+): OtlpKeyValue[] {
+  return toKeyValues({
+    ...event.properties,
+    ...extra,
+    'session.id': event.sessionId,
+    'user.id': event.user?.id,
+    'url.path': event.page,
+    'sample.rate': event.sampleRate,
+  })
+}
+
+function buildResource(config: OtlpConfig): Record<string, unknown> {
+  return {
+    attributes: toKeyValues({
+      'service.name': config.serviceName,
+      'telemetry.sdk.name': SCOPE.name,
+      'telemetry.sdk.language': 'webjs',
+      ...config.resourceAttributes,
+    }),
+  }
+}
+
+function toLogRecord(event: TelemetryEvent): Record<string, unknown> {
+  const isError = event.type === 'error'
+  const { message, stack, errorType, ...rest } = event.properties ?? {}
+  const properties = isError ? rest : event.properties
+
+  return {
+    timeUnixNano: toUnixNano(event.timestamp),
+    observedTimeUnixNano: toUnixNano(event.timestamp),
+    severityNumber: isError ? SEVERITY_ERROR : SEVERITY_INFO,
+    severityText: isError ? 'ERROR' : 'INFO',
+    body: { stringValue: isError && typeof message === 'string' ? message : event.name },
+    attributes: eventAttributes(
+      { ...event, properties },
+      isError
+        ? {
+            'event.name': event.name,
+            'exception.type': errorType,
+            'exception.message': message,
+            'exception.stacktrace': stack,
+          }
+        : { 'event.name': event.name }
+    ),
+  }
+}
+
+// OTLP aggregation temporality: AGGREGATION_TEMPORALITY_CUMULATIVE
+const TEMPORALITY_CUMULATIVE = 2
+
+function toDataPoint(event: TelemetryEvent): Record<string, unknown> {
+  const { metric } = event
+  const point: Record<string, unknown> = {
+    timeUnixNano: toUnixNano(event.timestamp),
+    attributes: eventAttributes(event, { rating: event.rating }),
+  }
+  if (metric) {
+    point.startTimeUnixNano = toUnixNano(metric.startTime)
+  }
+
+  if (metric?.kind === 'histogram') {
+    return {
+      ...point,
+      count: String(metric.count ?? 0),
+      sum: metric.sum,
+      min: metric.min,
+      max: metric.max,
+      bucketCounts: (metric.bucketCounts ?? []).map(String),
+      explicitBounds: metric.boundaries ?? [],
+    }
+  }
+  return { ...point, asDouble: event.value ?? 0 }
+}
+
+function toMetrics(events: TelemetryEvent[]): Record<string, unknown>[] {
+  // One OTLP metric per name and instrument kind, with a data point per event.
+  // Plain `trackMetric` observations (no aggregation) become gauge points.
+  const groups = new Map<string, TelemetryEvent[]>()
+
+  for (const event of events) {
+    const key = `${event.metric?.kind ?? 'observation'}:${event.name}`
+    const group = groups.get(key) ?? []
+    group.push(event)
+    groups.set(key, group)
+  }
+
+  return Array.from(groups.values(), (group) => {
+    const [first] = group as [TelemetryEvent]
+    const dataPoints = group.map(toDataPoint)
+    const metric: Record<string, unknown> = { name: first.name }
+    if (first.metric?.unit) {
+      metric.unit = first.metric.unit
+    }
+    if (first.metric?.description) {
+      metric.description = first.metric.description
+    }
+
+    switch (first.metric?.kind) {
+      case 'counter':
+      case 'upDownCounter':
+        metric.sum = {
+          dataPoints,
+          aggregationTemporality: TEMPORALITY_CUMULATIVE,
+          isMonotonic: first.metric.kind === 'counter',
+        }
+        break
+      case 'histogram':
+        metric.histogram = { dataPoints, aggregationTemporality: TEMPORALITY_CUMULATIVE }
+        break
+      default:
+        metric.gauge = { dataPoints }
+    }
+    return metric
+  })
+}
+
+function toSpan(event: TelemetryEvent): Record<string, unknown> {
+  const { span } = event
+
+  if (!span) {
+    // Flat trace events (`trackTrace`) carry no context of their own: treat each
+    // as a root span that ends at collection time and lasted `value` ms if given.
+    const duration = event.value ?? 0
+    return {
+      traceId: generateTraceId(),
+      spanId: generateSpanId(),
+      name: event.name,
+      kind: SPAN_KINDS.internal,
+      startTimeUnixNano: toUnixNano(event.timestamp - duration),
+      endTimeUnixNano: toUnixNano(event.timestamp),
+      attributes: eventAttributes(event),
+    }
+  }
+
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+    name: event.name,
+    kind: SPAN_KINDS[span.kind],
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime),
+    attributes: eventAttributes(event),
+    events: span.events.map((spanEvent) => ({
+      timeUnixNano: toUnixNano(spanEvent.timestamp),
+      name: spanEvent.name,
+      attributes: toKeyValues(spanEvent.attributes ?? {}),
+    })),
+    status: {
+      code: STATUS_CODES[span.status.code],
+      ...(span.status.message ? { message: span.status.message } : {}),
+    },
+  }
+}
+
+/**
+ * Build the OTLP/HTTP JSON requests for a batch of events.
+ * Only signals that have at least one event produce a request.
+ */
+export function buildOtlpRequests(events: TelemetryEvent[], config: OtlpConfig): OtlpRequest[] {
+  const endpoint = config.endpoint.replace(/\/+$/, '')
+  const resource = buildResource(config)
+  const scope = SCOPE
+
+  const logs = events.filter((e) => e.type === 'event' || e.type === 'error')
+  const metrics = events.filter((e) => e.type === 'metric')
+  const traces = events.filter((e) => e.type === 'trace')
+
+  const requests: OtlpRequest[] = []
+
+  if (logs.length > 0) {
+    requests.push({
+      signal: 'logs',
+      url: `${endpoint}/v1/logs`,
+      events: logs,
+      body: {
+        resourceLogs: [{ resource, scopeLogs: [{ scope, logRecords: logs.map(toLogRecord) }] }],
+      },
+    })
+  }
+
+  if (metrics.length > 0) {
+    requests.push({
+      signal: 'metrics',
+      url: `${endpoint}/v1/metrics`,
+      events: metrics,
+      body: {
+        resourceMetrics: [{ resource, scopeMetrics: [{ scope, metrics: toMetrics(metrics) }] }],
+      },
+    })
+  }
+
+  if (traces.length > 0) {
+    requests.push({
+      signal: 'traces',
+      url: `${endpoint}/v1/traces`,
+      events: traces,
+      body: { resourceSpans: [{ resource, scopeSpans: [{ scope, spans: traces.map(toSpan) }] }] },
+    })
+  }
+
+  return requests
+}
@@ -0,0 +1,234 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createPersistentQueue } from './persistent-queue'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import type { Exporter, TelemetryEvent } from './types'
+
+function event(name: string, timestamp = Date.now()): TelemetryEvent {
+  return { type: 'event', name, timestamp, sessionId: 's', page: '/' }
+}
+
+let keyCounter = 0
+function uniqueKey(): string {
+  return `test_queue_${++keyCounter}`
+}
+
+describe('persistent-queue', () => {
+  describe('createPersistentQueue', () => {
+    it('stores batches per exporter, oldest first', async () => {
+      const queue = createPersistentQueue({ storageKey: uniqueKey() })
+      if (!queue) throw new Error('expected a queue')
+
+      await queue.add('http', [event('a')])
+      await queue.add('otlp', [event('b')])
+      await queue.add('http', [event('c')])
+
+      const batches = await queue.getAll('http')
+      expect(batches.map((batch) => batch.events[0]?.name)).toEqual(['a', 'c'])
+
+      await queue.remove(batches[0]?.id ?? '')
+      expect((await queue.getAll('http')).map((batch) => batch.events[0]?.name)).toEqual(['c'])
+    })
+
+    it('claims each batch once, and restores it with its ID', async () => {
+      const key = uniqueKey()
+      const queue = createPersistentQueue({ storageKey: key })
+      const otherTab = createPersistentQueue({ storageKey: key })
+      if (!queue || !otherTab) throw new Error('expected a queue')
+
+      await queue.add('http', [event('a')])
+      await queue.add('http', [event('b')])
+
+      const claims = await Promise.all([queue.claim('http'), otherTab.claim('http')])
+      expect(claims.map((batch) => batch?.events[0]?.name).sort()).toEqual(['a', 'b'])
+      expect(await queue.claim('http')).toBeUndefined()
+
+      const [claimed] = claims
+      if (!claimed) throw new Error('expected a batch')
+      await queue.restore(claimed)
+      expect(await otherTab.getAll('http')).toEqual([claimed])
+    })
+
+    it('evicts the oldest batches beyond the limits', async () => {
+      const onEvict = vi.fn()
+      const config = { storageKey: uniqueKey(), maxBatches: 2, maxEvents: 2 }
+      const queue = createPersistentQueue(config, onEvict)
+      if (!queue) throw new Error('expected a queue')
+
+      await queue.add('http', [event('a')])
+      await queue.add('http', [event('b')])
+      await queue.add('http', [event('c')])
+      expect((await queue.getAll('http')).map((batch) => batch.events[0]?.name)).toEqual(['b', 'c'])
+      expect(onEvict).toHaveBeenCalledWith(1)
+
+      await queue.add('http', [event('d'), event('e')])
+      expect((await queue.getAll('http')).map((batch) => batch.events[0]?.name)).toEqual(['d'])
+      expect(onEvict).toHaveBeenLastCalledWith(2)
+    })
+
+    it('discards batches older than maxAge', async () => {
+      const onEvict = vi.fn()
+      const queue = createPersistentQueue({ storageKey: uniqueKey(), maxAge: 1000 }, onEvict)
+      if (!queue) throw new Error('expected a queue')
+
+      const now = Date.now()
+      const clock = vi.spyOn(Date, 'now').mockReturnValue(now - 5000)
+      await queue.add('http', [event('stale')])
+      clock.mockReturnValue(now)
+      await queue.add('http', [event('fresh')])
+
+      expect((await queue.getAll('http')).map((batch) => batch.events[0]?.name)).toEqual(['fresh'])
+      expect(onEvict).toHaveBeenCalledWith(1)
+      clock.mockRestore()
+    })
+
+    it('falls back to localStorage when IndexedDB fails', async () => {
+      const key = uniqueKey()
+      const open = vi.spyOn(indexedDB, 'open').mockImplementation(() => {
+        throw new Error('blocked')
+      })
+      const queue = createPersistentQueue({ storageKey: key })
+      if (!queue) throw new Error('expected a queue')
+
+      await queue.add('http', [event('a')])
+
+      expect(JSON.parse(localStorage.getItem(key) ?? '[]')).toHaveLength(1)
+      expect(await queue.getAll('http')).toHaveLength(1)
+
+      await queue.clear()
+      expect(localStorage.getItem(key)).toBeNull()
+      open.mockRestore()
+    })
+  })
+
+  describe('observability integration', () => {
+    beforeEach(() => {
+      resetSessionCache()
+      sessionStorage.clear()
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('persists failed batches and replays them on the next page load', async () => {
+      const storageKey = uniqueKey()
+      const failing: Exporter = {
+        name: 'http',
+        export: vi.fn().mockRejectedValue(new Error('offline')),
+      }
+
+      const first = createObservability({ exporters: [failing], persistence: { storageKey } })
+      const queue = createPersistentQueue({ storageKey })
+      first.trackEvent('checkout', { step: 1 })
+      first.flush()
+      await vi.waitFor(async () => expect(await queue?.getAll('http')).toHaveLength(1))
+      first.cleanup()
+      // Let a replay still in flight hand its claimed batch back
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      await vi.waitFor(async () => expect(await queue?.getAll('http')).toHaveLength(1))
+      const [stored] = (await queue?.getAll('http')) ?? []
+      const originalTimestamp = stored?.events[0]?.timestamp
+
+      // Next page load: the exporter is reachable again
+      const exported: TelemetryEvent[] = []
+      const second = createObservability({
+        exporters: [
+          {
+            name: 'http',
+            async export(events) {
+              exported.push(...events)
+            },
+          },
+        ],
+        persistence: { storageKey },
+      })
+
+      await vi.waitFor(() => expect(exported).toHaveLength(1))
+      expect(exported[0]).toMatchObject({ name: 'checkout', timestamp: originalTimestamp })
+      await vi.waitFor(async () => expect(await queue?.getAll('http')).toHaveLength(0))
+
+      second.cleanup()
+    })
+
+    it('replays a stored batch from one of the tabs sharing the store', async () => {
+      const storageKey = uniqueKey()
+      const queue = createPersistentQueue({ storageKey })
+      await queue?.add('http', [event('stored')])
+
+      // Two tabs restored together after an outage, without tab coordination
+      const exports = [vi.fn(async () => {}), vi.fn(async () => {})]
+      const tabs = exports.map((exportBatch) =>
+        createObservability({
+          exporters: [{ name: 'http', export: exportBatch }],
+          persistence: { storageKey },
+        })
+      )
+
+      await vi.waitFor(() => expect(exports.flatMap((fn) => fn.mock.calls)).toHaveLength(1))
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      expect(exports.flatMap((fn) => fn.mock.calls)).toEqual([
+        [[expect.objectContaining({ name: 'stored' })]],
+      ])
+      expect(await queue?.getAll('http')).toEqual([])
+
+      for (const tab of tabs) {
+        tab.cleanup()
+      }
+    })
+
+    it('counts events evicted from storage as dropped', async () => {
+      const storageKey = uniqueKey()
+      const failing: Exporter = {
+        name: 'http',
+        export: vi.fn().mockRejectedValue(new Error('offline')),
+      }
+
+      const obs = createObservability({
+        exporters: [failing],
+        persistence: { storageKey, maxBatches: 1 },
+      })
+      const queue = createPersistentQueue({ storageKey })
+      obs.trackEvent('first')
+      obs.trackEvent('second')
+      obs.flush()
+      await vi.waitFor(async () => expect(await queue?.getAll('http')).toHaveLength(1))
+
+      // Stored while the circuit breaker is open, pushing the older batch out
+      obs.trackEvent('third')
+      window.dispatchEvent(new Event('beforeunload'))
+
+      await vi.waitFor(() => expect(obs.getStats().dropped.storage_evicted).toBe(2))
+      expect((await queue?.getAll('http'))?.[0]?.events.map((e) => e.name)).toEqual(['third'])
+
+      obs.cleanup()
+    })
+
+    it('stores events instead of beaconing while the circuit breaker is open', async () => {
+      const storageKey = uniqueKey()
+      const exportOnUnload = vi.fn()
+      const exporter: Exporter = {
+        name: 'http',
+        export: vi.fn().mockRejectedValue(new Error('offline')),
+        exportOnUnload,
+      }
+
+      const obs = createObservability({ exporters: [exporter], persistence: { storageKey } })
+      const queue = createPersistentQueue({ storageKey })
+      obs.trackEvent('first')
+      obs.flush()
+      await vi.waitFor(async () => expect(await queue?.getAll('http')).toHaveLength(1))
+
+      obs.trackEvent('second')
+      window.dispatchEvent(new Event('beforeunload'))
+
+      await vi.waitFor(async () => expect(await queue?.getAll('http')).toHaveLength(2))
+      expect(exportOnUnload).not.toHaveBeenCalled()
+
+      obs.cleanup()
+    })
+  })
+})
@@ -0,0 +1,329 @@
+/**
+ * Persistent Queue
+ *
+ * Durable storage for batches that could not be delivered, so an outage
+ * followed by a reload or tab close does not lose telemetry. Batches live in
+ * IndexedDB, falling back to localStorage where IndexedDB is unavailable,
+ * and are replayed with their original timestamps on the next page load.
+ * Replay claims one batch at a time, removing it from storage in the same
+ * step, so tabs sharing the store never send a batch twice.
+ */
+
+import type { PersistenceConfig, TelemetryEvent } from './types'
+
+const DEFAULT_STORAGE_KEY = 'pleme_observability_queue'
+const DEFAULT_MAX_BATCHES = 50
+const DEFAULT_MAX_EVENTS = 1000
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000 // 24 hours
+const STORE_NAME = 'batches'
+
+export interface PersistedBatch {
+  id: string
+  /** Name of the exporter the batch is destined for */
+  exporter: string
+  events: TelemetryEvent[]
+  createdAt: number
+}
+
+export interface PersistentQueue {
+  /** Store a batch, then evict expired and excess batches */
+  add: (exporter: string, events: TelemetryEvent[]) => Promise<void>
+  /** Unexpired batches for an exporter, oldest first */
+  getAll: (exporter: string) => Promise<PersistedBatch[]>
+  /**
+   * Remove and return the oldest unexpired batch for an exporter in one step, so
+   * no other tab can replay it too
+   */
+  claim: (exporter: string) => Promise<PersistedBatch | undefined>
+  /** Store a claimed batch again, keeping its ID and age */
+  restore: (batch: PersistedBatch) => Promise<void>
+  remove: (id: string) => Promise<void>
+  clear: () => Promise<void>
+}
+
+/**
+ * Raw key-value backend underneath the queue.
+ */
+interface BatchStore {
+  put: (batch: PersistedBatch) => Promise<void>
+  list: () => Promise<PersistedBatch[]>
+  delete: (ids: string[]) => Promise<void>
+  /** Delete and return the batches `select` picks, atomically */
+  take: (select: (batches: PersistedBatch[]) => PersistedBatch[]) => Promise<PersistedBatch[]>
+  clear: () => Promise<void>
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+function createIndexedDbStore(databaseName: string): BatchStore {
+  let database: Promise<IDBDatabase> | null = null
+
+  function open(): Promise<IDBDatabase> {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return database
+  }
+
+  async function run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T> | undefined
+  ): Promise<T | undefined> {
+    const db = await open()
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = operation(transaction.objectStore(STORE_NAME))
+    const result = request ? await requestToPromise(request) : undefined
+    await transactionToPromise(transaction)
+    return result
+  }
+
+  return {
+    async put(batch: PersistedBatch): Promise<void> {
+      await run('readwrite', (store) => store.put(batch))
+    },
+
+    async list(): Promise<PersistedBatch[]> {
+      return ((await run('readonly', (store) => store.getAll())) ?? []) as PersistedBatch[]
+    },
+
+    async delete(ids: string[]): Promise<void> {
+      await run('readwrite', (store) => {
+        for (const id of ids) {
+          store.delete(id)
+        }
+        return undefined
+      })
+    },
+
+    async take(select) {
+      const db = await open()
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      const store = transaction.objectStore(STORE_NAME)
+      let taken: PersistedBatch[] = []
+      // Read and delete in one transaction, which other tabs cannot interleave with
+      const request = store.getAll()
+      request.onsuccess = () => {
+        taken = select(request.result as PersistedBatch[])
+        for (const batch of taken) {
+          store.delete(batch.id)
+        }
+      }
+      await transactionToPromise(transaction)
+      return taken
+    },
+
+    async clear(): Promise<void> {
+      await run('readwrite', (store) => store.clear())
+    },
+  }
+}
+
+function createLocalStorageStore(key: string): BatchStore {
+  function read(): PersistedBatch[] {
+    try {
+      return JSON.parse(localStorage.getItem(key) ?? '[]') as PersistedBatch[]
+    } catch {
+      return []
+    }
+  }
+
+  function write(batches: PersistedBatch[]): void {
+    if (batches.length === 0) {
+      localStorage.removeItem(key)
+    } else {
+      localStorage.setItem(key, JSON.stringify(batches))
+    }
+  }
+
+  return {
+    async put(batch: PersistedBatch): Promise<void> {
+      write([...read().filter((b) => b.id !== batch.id), batch])
+    },
+
+    async list(): Promise<PersistedBatch[]> {
+      return read()
+    },
+
+    async delete(ids: string[]): Promise<void> {
+      write(read().filter((batch) => !ids.includes(batch.id)))
+    },
+
+    async take(select) {
+      const batches = read()
+      const taken = select(batches)
+      if (taken.length > 0) {
+        write(batches.filter((batch) => !taken.includes(batch)))
+      }
+      return taken
+    },
+
+    async clear(): Promise<void> {
+      localStorage.removeItem(key)
+    },
+  }
+}
+
+/**
+ * Pick the best available backend: IndexedDB, then localStorage.
+ * Returns undefined when neither exists (e.g. SSR).
+ */
+function createBatchStore(key: string): BatchStore | undefined {
+  if (typeof indexedDB !== 'undefined') {
+    const primary = createIndexedDbStore(key)
+    const fallback = typeof localStorage !== 'undefined' ? createLocalStorageStore(key) : undefined
+    let active: BatchStore = primary
+
+    // Switch to localStorage for good if IndexedDB fails (private mode, quota, blocked)
+    const guarded = <K extends keyof BatchStore>(method: K): BatchStore[K] =>
+      (async (...args: unknown[]) => {
+        try {
+          return await (active[method] as (...a: unknown[]) => Promise<unknown>)(...args)
+        } catch (error) {
+          if (active === primary && fallback) {
+            active = fallback
+            return (active[method] as (...a: unknown[]) => Promise<unknown>)(...args)
+          }
+          throw error
+        }
+      }) as BatchStore[K]
+
+    return {
+      put: guarded('put'),
+      list: guarded('list'),
+      delete: guarded('delete'),
+      take: guarded('take'),
+      clear: guarded('clear'),
+    }
+  }
+
+  if (typeof localStorage !== 'undefined') {
+    return createLocalStorageStore(key)
+  }
+
+  return undefined
+}
+
+let batchSequence = 0
+
+/**
+ * Batch IDs sort in creation order, even within the same millisecond.
+ */
+function generateBatchId(now: number): string {
+  const sequence = (batchSequence++ % 1e6).toString().padStart(6, '0')
+  return `${now}-${sequence}-${Math.random().toString(36).slice(2, 7)}`
+}
+
+function compareBatches(a: PersistedBatch, b: PersistedBatch): number {
+  return a.createdAt - b.createdAt || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+}
+
+/**
+ * Create a persistent queue, or undefined when no storage is available.
+ * `onEvict` receives the number of events in batches dropped for age or limits.
+ */
+export function createPersistentQueue(
+  config: PersistenceConfig = {},
+  onEvict?: (count: number) => void
+): PersistentQueue | undefined {
+  const backend = createBatchStore(config.storageKey ?? DEFAULT_STORAGE_KEY)
+  if (!backend) {
+    return undefined
+  }
+  const store: BatchStore = backend
+
+  const maxBatches = config.maxBatches ?? DEFAULT_MAX_BATCHES
+  const maxEvents = config.maxEvents ?? DEFAULT_MAX_EVENTS
+  const maxAge = config.maxAge ?? DEFAULT_MAX_AGE_MS
+
+  /**
+   * Drop expired batches, then the oldest ones until both limits hold, and return
+   * the rest. Batches are picked and deleted in one step, so concurrent calls never
+   * evict, and count, the same batch twice.
+   */
+  async function enforceLimits(): Promise<PersistedBatch[]> {
+    let kept: PersistedBatch[] = []
+    const evicted = await store.take((stored) => {
+      const batches = [...stored].sort(compareBatches)
+      const expiredBefore = Date.now() - maxAge
+      const evict: PersistedBatch[] = []
+      let totalEvents = batches.reduce((sum, batch) => sum + batch.events.length, 0)
+      kept = []
+
+      for (const [index, batch] of batches.entries()) {
+        const remaining = batches.length - index
+        if (batch.createdAt < expiredBefore || remaining > maxBatches || totalEvents > maxEvents) {
+          evict.push(batch)
+          totalEvents -= batch.events.length
+        } else {
+          kept.push(batch)
+        }
+      }
+      return evict
+    })
+
+    const evictedEvents = evicted.reduce((sum, batch) => sum + batch.events.length, 0)
+    if (evictedEvents > 0) {
+      onEvict?.(evictedEvents)
+    }
+    return kept
+  }
+
+  return {
+    async add(exporter: string, events: TelemetryEvent[]): Promise<void> {
+      if (events.length === 0) {
+        return
+      }
+      const createdAt = Date.now()
+      await store.put({ id: generateBatchId(createdAt), exporter, events, createdAt })
+      await enforceLimits()
+    },
+
+    async getAll(exporter: string): Promise<PersistedBatch[]> {
+      return (await enforceLimits()).filter((batch) => batch.exporter === exporter)
+    },
+
+    async claim(exporter: string): Promise<PersistedBatch | undefined> {
+      await enforceLimits()
+      const [batch] = await store.take((batches) =>
+        batches
+          .filter((stored) => stored.exporter === exporter)
+          .sort(compareBatches)
+          .slice(0, 1)
+      )
+      return batch
+    },
+
+    async restore(batch: PersistedBatch): Promise<void> {
+      await store.put(batch)
+      await enforceLimits()
+    },
+
+    async remove(id: string): Promise<void> {
+      await store.delete([id])
+    },
+
+    async clear(): Promise<void> {
+      await store.clear()
+    },
+  }
+}
@@ -1,6 +1,27 @@
-import { describe, it, expect, vi } from 'vitest'
-import { trackRender, trackEffect, withTiming } from './react'
-import type { ObservabilityInstance } from './types'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { act, createElement, useState, type ReactElement } from 'react'
+import { createRoot, type Root } from 'react-dom/client'
+import {
+  createProfilerHandler,
+  ObservabilityErrorBoundary,
+  ObservabilityProvider,
+  useObservability,
+  useTrackEffect,
+  useTrackRender,
+  trackRender,
+  trackEffect,
+  withTiming,
+  trackReactRouter,
+  trackTanStackRouter,
+  type ReactRouterState,
+  type TanStackRouterLike,
+} from './react'
+import { createObservability } from './telemetry'
+import { createMemoryExporter } from './test-utils'
+import type { ObservabilityInstance, Span } from './types'
+
+// Let React know updates are wrapped in act()
+;(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true
 
 describe('react', () => {
   const createMockObservability = (): ObservabilityInstance => ({
@@ -8,11 +29,27 @@ describe('react', () => {
     trackEvent: vi.fn(),
     trackError: vi.fn(),
     trackTrace: vi.fn(),
+    startSpan: vi.fn(),
+    withSpan: vi.fn((_name, fn) => fn({} as Span)),
+    getActiveSpan: vi.fn(),
+    bindContext: vi.fn((fn) => fn),
+    counter: vi.fn().mockReturnValue({ add: vi.fn() }),
+    upDownCounter: vi.fn().mockReturnValue({ add: vi.fn() }),
+    gauge: vi.fn().mockReturnValue({ record: vi.fn() }),
+    histogram: vi.fn().mockReturnValue({ record: vi.fn() }),
+    rateMetric: vi.fn(),
+    addBreadcrumb: vi.fn(),
     captureException: vi.fn(),
     trackPageView: vi.fn(),
+    trackRouteChange: vi.fn(),
     flush: vi.fn(),
     cleanup: vi.fn(),
+    getStats: vi.fn(),
     getSessionId: vi.fn().mockReturnValue('test-session'),
+    identify: vi.fn(),
+    resetUser: vi.fn(),
+    setConsent: vi.fn(),
+    getConsent: vi.fn(),
   })
 
   describe('trackRender', () => {
@@ -29,6 +66,27 @@ describe('react', () => {
     })
   })
 
+  describe('histogram recording', () => {
+    it('records renders into a per-component histogram series', () => {
+      const obs = createMockObservability()
+      trackRender(obs, 'MyComponent', 15.5, { histogram: true })
+
+      const histogram = vi.mocked(obs.histogram).mock.results[0]?.value
+      expect(obs.histogram).toHaveBeenCalledWith('render.duration', { unit: 'ms' })
+      expect(histogram.record).toHaveBeenCalledWith(15.5, { component: 'MyComponent' })
+      expect(obs.trackMetric).not.toHaveBeenCalled()
+    })
+
+    it('records effects into a per-effect histogram series', () => {
+      const obs = createMockObservability()
+      trackEffect(obs, 'fetchData', 100, { histogram: true })
+
+      const histogram = vi.mocked(obs.histogram).mock.results[0]?.value
+      expect(obs.histogram).toHaveBeenCalledWith('effect.duration', { unit: 'ms' })
+      expect(histogram.record).toHaveBeenCalledWith(100, { effect: 'fetchData' })
+    })
+  })
+
   describe('trackEffect', () => {
     it('tracks effect execution time', () => {
       const obs = createMockObservability()
@@ -61,6 +119,46 @@ describe('react', () => {
       )
     })
 
+    it('leaves calls matching a threshold for trackMetric to rate', async () => {
+      const obs = createMockObservability()
+      vi.mocked(obs.rateMetric).mockReturnValue('needs-improvement')
+
+      await withTiming(obs, 'api.test', vi.fn().mockResolvedValue('result'))()
+
+      expect(obs.rateMetric).toHaveBeenCalledWith('api.test', expect.any(Number))
+      expect(obs.trackMetric).toHaveBeenCalledWith(
+        'api.test',
+        expect.any(Number),
+        undefined,
+        { success: true }
+      )
+    })
+
+    it('reports a budget violation for slow calls', async () => {
+      vi.useFakeTimers()
+      const { events, exporter } = createMemoryExporter()
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        thresholds: [{ name: 'api.*', good: 200, poor: 1000 }],
+      })
+      vi.spyOn(performance, 'now').mockReturnValueOnce(0).mockReturnValueOnce(5000)
+
+      await withTiming(obs, 'api.users', vi.fn().mockResolvedValue('result'))()
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      expect(events.map((event) => [event.name, event.rating])).toEqual([
+        ['api.users', 'poor'],
+        ['budget_violation', undefined],
+      ])
+      expect(events[1]?.properties).toMatchObject({ metric: 'api.users', rating: 'poor' })
+
+      obs.cleanup()
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
     it('tracks errors in wrapped functions', async () => {
       const obs = createMockObservability()
       const error = new Error('Test error')
@@ -77,6 +175,24 @@ describe('react', () => {
       )
     })
 
+    it('records a span instead of a metric when requested', async () => {
+      const obs = createMockObservability()
+      const mockFn = vi.fn().mockResolvedValue('result')
+
+      const wrapped = withTiming(obs, 'api.test', mockFn, {
+        span: true,
+        attributes: { endpoint: '/users' },
+      })
+      const result = await wrapped('arg1')
+
+      expect(result).toBe('result')
+      expect(mockFn).toHaveBeenCalledWith('arg1')
+      expect(obs.withSpan).toHaveBeenCalledWith('api.test', expect.any(Function), {
+        attributes: { endpoint: '/users' },
+      })
+      expect(obs.trackMetric).not.toHaveBeenCalled()
+    })
+
     it('preserves function arguments and return type', async () => {
       const obs = createMockObservability()
       const mockFn = vi.fn(async (a: number, b: string) => ({ sum: a, str: b }))
@@ -88,4 +204,344 @@ describe('react', () => {
       expect(mockFn).toHaveBeenCalledWith(42, 'hello')
     })
   })
+  describe('trackReactRouter', () => {
+    const state = (
+      pathname: string,
+      overrides: Partial<ReactRouterState> = {}
+    ): ReactRouterState => ({
+      location: { pathname },
+      historyAction: 'PUSH',
+      navigation: { state: 'idle' },
+      matches: [],
+      ...overrides,
+    })
+
+    it('reports navigations with matched route templates and loader timing', () => {
+      vi.useFakeTimers()
+      const obs = createMockObservability()
+      let listener: (next: ReactRouterState) => void = () => {}
+      const unsubscribe = vi.fn()
+      const router = {
+        state: state('/', { historyAction: 'POP' }),
+        subscribe: vi.fn((fn: (next: ReactRouterState) => void) => {
+          listener = fn
+          return unsubscribe
+        }),
+      }
+
+      const stop = trackReactRouter(obs, router)
+      listener(state('/', { navigation: { state: 'loading' } }))
+      vi.advanceTimersByTime(120)
+      listener(
+        state('/users/123', {
+          matches: [
+            { route: { path: '/' } },
+            { route: { path: 'users' } },
+            { route: { path: ':id' } },
+          ],
+        })
+      )
+      stop()
+
+      expect(obs.trackRouteChange).toHaveBeenNthCalledWith(1, '/', {
+        route: undefined,
+        navigationType: 'initial',
+        duration: undefined,
+      })
+      expect(obs.trackRouteChange).toHaveBeenNthCalledWith(2, '/users/123', {
+        route: '/users/:id',
+        navigationType: 'push',
+        duration: 120,
+      })
+      expect(unsubscribe).toHaveBeenCalled()
+      vi.useRealTimers()
+    })
+  })
+
+  describe('trackTanStackRouter', () => {
+    it('reports resolved path changes with converted route templates', () => {
+      vi.useFakeTimers()
+      const obs = createMockObservability()
+      const listeners: Record<string, (event: never) => void> = {}
+      const router: TanStackRouterLike = {
+        state: { location: { pathname: '/' }, matches: [{ routeId: '__root__' }] },
+        subscribe: vi.fn((eventType, listener) => {
+          listeners[eventType] = listener as (event: never) => void
+          return vi.fn()
+        }),
+      }
+
+      trackTanStackRouter(obs, router)
+      listeners.onBeforeNavigate?.({} as never)
+      vi.advanceTimersByTime(80)
+      router.state.matches = [
+        { routeId: '__root__' },
+        { routeId: '/posts/$postId', fullPath: '/posts/$postId' },
+      ]
+      listeners.onResolved?.({ toLocation: { pathname: '/posts/5' }, pathChanged: true } as never)
+      listeners.onResolved?.({ toLocation: { pathname: '/posts/5' }, pathChanged: false } as never)
+
+      expect(obs.trackRouteChange).toHaveBeenCalledTimes(2)
+      expect(obs.trackRouteChange).toHaveBeenNthCalledWith(1, '/', {
+        route: undefined,
+        navigationType: 'initial',
+      })
+      expect(obs.trackRouteChange).toHaveBeenNthCalledWith(2, '/posts/5', {
+        route: '/posts/:postId',
+        duration: 80,
+      })
+      vi.useRealTimers()
+    })
+  })
+  describe('components and hooks', () => {
+    let root: Root | null = null
+
+    const render = (element: ReactElement): HTMLElement => {
+      const container = document.createElement('div')
+      root = createRoot(container)
+      act(() => root?.render(element))
+      return container
+    }
+
+    afterEach(() => {
+      act(() => root?.unmount())
+      root = null
+      vi.restoreAllMocks()
+    })
+
+    const Thrower = (): ReactElement => {
+      throw new Error('render failed')
+    }
+
+    it('provides the instance to useObservability', () => {
+      const obs = createMockObservability()
+      let received: ObservabilityInstance | undefined
+      const Consumer = (): null => {
+        received = useObservability()
+        return null
+      }
+
+      render(createElement(ObservabilityProvider, { observability: obs }, createElement(Consumer)))
+
+      expect(received).toBe(obs)
+    })
+
+    it('throws from useObservability outside a provider', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const Consumer = (): null => {
+        useObservability()
+        return null
+      }
+
+      expect(() => render(createElement(Consumer))).toThrow(
+        'useObservability must be used within an ObservabilityProvider'
+      )
+    })
+
+    it('tracks every render with useTrackRender', () => {
+      const obs = createMockObservability()
+      let rerender: () => void = () => {}
+      const Tracked = (): null => {
+        const [, setCount] = useState(0)
+        rerender = () => setCount((count) => count + 1)
+        useTrackRender('Tracked', { histogram: true })
+        return null
+      }
+
+      render(createElement(ObservabilityProvider, { observability: obs }, createElement(Tracked)))
+      act(() => rerender())
+
+      const histogram = vi.mocked(obs.histogram).mock.results[0]?.value
+      expect(obs.histogram).toHaveBeenCalledWith('render.duration', { unit: 'ms' })
+      expect(histogram.record).toHaveBeenCalledTimes(2)
+      expect(histogram.record).toHaveBeenCalledWith(expect.any(Number), { component: 'Tracked' })
+    })
+
+    it('times effects and keeps their cleanup with useTrackEffect', () => {
+      const obs = createMockObservability()
+      const cleanup = vi.fn()
+      const Tracked = (): null => {
+        useTrackEffect('subscribe', () => cleanup, [])
+        return null
+      }
+
+      render(createElement(ObservabilityProvider, { observability: obs }, createElement(Tracked)))
+      expect(obs.trackMetric).toHaveBeenCalledWith(
+        'effect.subscribe',
+        expect.any(Number),
+        undefined,
+        { effect: 'subscribe' }
+      )
+
+      act(() => root?.unmount())
+      root = null
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+
+    it('re-runs useTrackEffect only when its dependencies change, with the latest callback', () => {
+      const obs = createMockObservability()
+      const runs: string[] = []
+      let update: (feed: string, label: string) => void = () => {}
+      const Tracked = (): null => {
+        const [state, setState] = useState({ feed: 'a', label: 'first' })
+        update = (feed, label) => setState({ feed, label })
+        useTrackEffect('subscribe', () => void runs.push(`${state.feed}:${state.label}`), [
+          state.feed,
+        ])
+        return null
+      }
+
+      render(createElement(ObservabilityProvider, { observability: obs }, createElement(Tracked)))
+      act(() => update('a', 'second'))
+      act(() => update('b', 'third'))
+
+      expect(runs).toEqual(['a:first', 'b:third'])
+      expect(obs.trackMetric).toHaveBeenCalledTimes(2)
+    })
+
+    it('captures render errors with the component stack and renders the fallback', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const obs = createMockObservability()
+      const onError = vi.fn()
+
+      const container = render(
+        createElement(
+          ObservabilityProvider,
+          { observability: obs },
+          createElement(
+            ObservabilityErrorBoundary,
+            { name: 'checkout', fallback: 'Something went wrong', onError },
+            createElement(Thrower)
+          )
+        )
+      )
+
+      expect(container.textContent).toBe('Something went wrong')
+      expect(obs.captureException).toHaveBeenCalledWith(expect.any(Error), {
+        componentStack: expect.stringContaining('Thrower'),
+        boundary: 'checkout',
+      })
+      expect(onError).toHaveBeenCalledTimes(1)
+    })
+
+    it('resets from a fallback render function', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const obs = createMockObservability()
+      let shouldThrow = true
+      let retry: () => void = () => {}
+      const MaybeThrow = (): string => {
+        if (shouldThrow) {
+          throw new Error('render failed')
+        }
+        return 'recovered'
+      }
+
+      const container = render(
+        createElement(
+          ObservabilityErrorBoundary,
+          {
+            observability: obs,
+            fallback: (error: Error, reset: () => void) => {
+              retry = reset
+              return `failed: ${error.message}`
+            },
+          },
+          createElement(MaybeThrow)
+        )
+      )
+      expect(container.textContent).toBe('failed: render failed')
+
+      shouldThrow = false
+      act(() => retry())
+      expect(container.textContent).toBe('recovered')
+      expect(obs.captureException).toHaveBeenCalledTimes(1)
+    })
+  })
+  describe('createProfilerHandler', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('reports percentiles per component and phase on an interval', () => {
+      vi.useFakeTimers()
+      const obs = createMockObservability()
+      const profiler = createProfilerHandler(obs, { reportInterval: 1000, percentiles: [50, 90] })
+
+      for (let i = 1; i <= 10; i++) {
+        profiler.onRender('List', 'update', i, i * 2, 0, 0)
+      }
+      profiler.onRender('List', 'mount', 4, 4, 0, 0)
+      expect(obs.trackMetric).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(1100)
+
+      expect(obs.trackMetric).toHaveBeenCalledTimes(2)
+      expect(obs.trackMetric).toHaveBeenCalledWith('react.render', 10, 'good', {
+        component: 'List',
+        phase: 'update',
+        count: 10,
+        actualDuration: { p50: 5, p90: 9 },
+        baseDuration: { p50: 10, p90: 18 },
+        budget: 16,
+        overBudget: 0,
+      })
+      expect(obs.trackMetric).toHaveBeenCalledWith(
+        'react.render',
+        4,
+        'good',
+        expect.objectContaining({ component: 'List', phase: 'mount', count: 1 })
+      )
+
+      // Series reset after each report
+      vi.advanceTimersByTime(1100)
+      expect(obs.trackMetric).toHaveBeenCalledTimes(2)
+      profiler.stop()
+    })
+
+    it('flags components whose renders exceed their budget', () => {
+      const obs = createMockObservability()
+      const profiler = createProfilerHandler(obs, { budget: { Chart: 30 } })
+
+      profiler.onRender('Chart', 'update', 45, 40, 0, 0)
+      profiler.onRender('Chart', 'update', 70, 40, 0, 0)
+      profiler.onRender('Chart', 'update', 10, 40, 0, 0)
+      profiler.onRender('Row', 'update', 20, 20, 0, 0)
+      profiler.stop()
+
+      expect(obs.trackMetric).toHaveBeenCalledWith(
+        'react.render',
+        70,
+        'poor',
+        expect.objectContaining({ component: 'Chart', budget: 30, overBudget: 2 })
+      )
+      expect(obs.trackEvent).toHaveBeenCalledWith('render_budget_exceeded', {
+        component: 'Chart',
+        phase: 'update',
+        budget: 30,
+        count: 2,
+        maxDuration: 70,
+      })
+      expect(obs.trackEvent).toHaveBeenCalledWith(
+        'render_budget_exceeded',
+        expect.objectContaining({ component: 'Row', budget: 16, count: 1 })
+      )
+    })
+
+    it('keeps only the most recent samples', () => {
+      const obs = createMockObservability()
+      const profiler = createProfilerHandler(obs, { maxSamples: 2, percentiles: [50] })
+
+      profiler.onRender('Row', 'update', 100, 1, 0, 0)
+      profiler.onRender('Row', 'update', 2, 1, 0, 0)
+      profiler.onRender('Row', 'update', 4, 1, 0, 0)
+      profiler.stop()
+
+      expect(obs.trackMetric).toHaveBeenCalledWith(
+        'react.render',
+        4,
+        'good',
+        expect.objectContaining({ count: 3, actualDuration: { p50: 2 }, overBudget: 1 })
+      )
+    })
+  })
 })
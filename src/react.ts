@@ -1,10 +1,41 @@
 /**
  * React Integration
  *
- * React-specific observability utilities for component tracking.
+ * React-specific observability utilities: a context provider with hooks,
+ * an error boundary, component timing helpers, a Profiler aggregator and
+ * router integration.
  */
 
-import type { ObservabilityInstance } from './types'
+import {
+  Component,
+  createContext,
+  createElement,
+  useContext,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  type DependencyList,
+  type EffectCallback,
+  type ErrorInfo,
+  type ProfilerOnRenderCallback,
+  type ReactNode,
+} from 'react'
+import type { MetricRating, NavigationType, ObservabilityInstance } from './types'
+
+export interface WithTimingOptions {
+  /** Record the call as a span (nested under the active span) instead of a metric */
+  span?: boolean
+  /** Extra span attributes (only used with `span: true`) */
+  attributes?: Record<string, unknown>
+}
+
+export interface DurationTrackingOptions {
+  /**
+   * Record into an aggregated histogram (`render.duration` / `effect.duration`,
+   * one series per component or effect) instead of emitting one metric per call
+   */
+  histogram?: boolean
+}
 
 /**
  * Track a React component render duration.
@@ -17,13 +48,24 @@ import type { ObservabilityInstance } from './types'
  * useLayoutEffect(() => {
  *   trackRender(observability, 'MyComponent', performance.now() - renderStart.current)
  * })
+ *
+ * // Hot components: aggregate into a histogram reported once per flush
+ * trackRender(observability, 'ListRow', duration, { histogram: true })
  * ```
  */
 export function trackRender(
   observability: ObservabilityInstance,
   componentName: string,
-  renderTime: number
+  renderTime: number,
+  options: DurationTrackingOptions = {}
 ): void {
+  if (options.histogram) {
+    observability
+      .histogram('render.duration', { unit: 'ms' })
+      .record(renderTime, { component: componentName })
+    return
+  }
+
   observability.trackMetric(`render.${componentName}`, renderTime, undefined, {
     component: componentName,
   })
@@ -45,8 +87,16 @@ export function trackRender(
 export function trackEffect(
   observability: ObservabilityInstance,
   effectName: string,
-  executionTime: number
+  executionTime: number,
+  options: DurationTrackingOptions = {}
 ): void {
+  if (options.histogram) {
+    observability
+      .histogram('effect.duration', { unit: 'ms' })
+      .record(executionTime, { effect: effectName })
+    return
+  }
+
   observability.trackMetric(`effect.${effectName}`, executionTime, undefined, {
     effect: effectName,
   })
@@ -54,25 +104,37 @@ export function trackEffect(
 
 /**
  * Create a higher-order function that wraps async operations with timing.
+ * Successful calls are rated against the configured thresholds, and count
+ * against the performance budget, falling back to 'good'; failed calls are rated 'poor'.
  *
  * @example
  * ```tsx
  * const trackedFetch = withTiming(observability, 'api.users', fetchUsers)
  * const users = await trackedFetch()
+ *
+ * // Or as a span, with duration, status and any exception recorded on it
+ * const tracedFetch = withTiming(observability, 'api.users', fetchUsers, { span: true })
  * ```
  */
 export function withTiming<TArgs extends unknown[], TResult>(
   observability: ObservabilityInstance,
   name: string,
-  fn: (...args: TArgs) => Promise<TResult>
+  fn: (...args: TArgs) => Promise<TResult>,
+  options: WithTimingOptions = {}
 ): (...args: TArgs) => Promise<TResult> {
+  if (options.span) {
+    return (...args: TArgs): Promise<TResult> =>
+      observability.withSpan(name, () => fn(...args), { attributes: options.attributes })
+  }
+
   return async (...args: TArgs): Promise<TResult> => {
     const start = performance.now()
     try {
       const result = await fn(...args)
-      observability.trackMetric(name, performance.now() - start, 'good', {
-        success: true,
-      })
+      const duration = performance.now() - start
+      // Leave rated calls to trackMetric so they count against the performance budget
+      const rating = observability.rateMetric(name, duration) === undefined ? 'good' : undefined
+      observability.trackMetric(name, duration, rating, { success: true })
       return result
     } catch (error) {
       observability.trackMetric(name, performance.now() - start, 'poor', {
@@ -83,3 +145,462 @@ export function withTiming<TArgs extends unknown[], TResult>(
     }
   }
 }
+
+export type ProfilerPhase = 'mount' | 'update' | 'nested-update'
+
+export interface ProfilerOptions {
+  /** How often aggregated render stats are reported, in ms (default: 10000) */
+  reportInterval?: number
+  /**
+   * Render budget in ms, globally or per Profiler `id` (default: 16, one frame at 60Hz).
+   * Components with renders over budget get a 'render_budget_exceeded' event per report.
+   */
+  budget?: number | Record<string, number>
+  /** Percentiles reported for each series (default: [50, 75, 95, 99]) */
+  percentiles?: number[]
+  /** Most recent renders kept per component and phase (default: 500) */
+  maxSamples?: number
+}
+
+export interface ProfilerHandler {
+  /** Pass to `<Profiler onRender>` */
+  onRender: ProfilerOnRenderCallback
+  /** Report everything aggregated since the last report */
+  report: () => void
+  /** Report what is left and stop the report timer */
+  stop: () => void
+}
+
+interface ProfilerSeries {
+  id: string
+  phase: ProfilerPhase
+  actual: number[]
+  base: number[]
+  count: number
+  overBudget: number
+  worst: number
+}
+
+const DEFAULT_PROFILER_REPORT_INTERVAL = 10_000
+const DEFAULT_RENDER_BUDGET = 16
+const DEFAULT_PERCENTILES = [50, 75, 95, 99]
+const DEFAULT_MAX_PROFILER_SAMPLES = 500
+
+/**
+ * Nearest-rank percentile of ascending-sorted values.
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1] ?? 0
+}
+
+function summarize(sorted: number[], percentiles: number[]): Record<string, number> {
+  const summary: Record<string, number> = {}
+  for (const p of percentiles) {
+    summary[`p${p}`] = percentile(sorted, p)
+  }
+  return summary
+}
+
+function rateAgainstBudget(value: number, budget: number): MetricRating {
+  if (value <= budget) {
+    return 'good'
+  }
+  return value <= budget * 2 ? 'needs-improvement' : 'poor'
+}
+
+/**
+ * Create a React `<Profiler>` `onRender` handler that aggregates render
+ * durations per component and phase, and reports percentiles periodically as
+ * one 'react.render' metric per series (valued at its p95 actual duration)
+ * instead of one metric per commit.
+ *
+ * @example
+ * ```tsx
+ * const profiler = createProfilerHandler(observability, { budget: { Dashboard: 50 } })
+ *
+ * <Profiler id="Dashboard" onRender={profiler.onRender}>
+ *   <Dashboard />
+ * </Profiler>
+ * ```
+ */
+export function createProfilerHandler(
+  observability: ObservabilityInstance,
+  options: ProfilerOptions = {}
+): ProfilerHandler {
+  const reportInterval = options.reportInterval ?? DEFAULT_PROFILER_REPORT_INTERVAL
+  const percentiles = options.percentiles ?? DEFAULT_PERCENTILES
+  const maxSamples = options.maxSamples ?? DEFAULT_MAX_PROFILER_SAMPLES
+  const series = new Map<string, ProfilerSeries>()
+  let timer: ReturnType<typeof setInterval> | null = null
+
+  const budgetFor = (id: string): number =>
+    typeof options.budget === 'object'
+      ? (options.budget[id] ?? DEFAULT_RENDER_BUDGET)
+      : (options.budget ?? DEFAULT_RENDER_BUDGET)
+
+  function report(): void {
+    for (const entry of series.values()) {
+      const budget = budgetFor(entry.id)
+      const actual = [...entry.actual].sort((a, b) => a - b)
+      const base = [...entry.base].sort((a, b) => a - b)
+      const p95 = percentile(actual, 95)
+
+      observability.trackMetric('react.render', p95, rateAgainstBudget(p95, budget), {
+        component: entry.id,
+        phase: entry.phase,
+        count: entry.count,
+        actualDuration: summarize(actual, percentiles),
+        baseDuration: summarize(base, percentiles),
+        budget,
+        overBudget: entry.overBudget,
+      })
+
+      if (entry.overBudget > 0) {
+        observability.trackEvent('render_budget_exceeded', {
+          component: entry.id,
+          phase: entry.phase,
+          budget,
+          count: entry.overBudget,
+          maxDuration: entry.worst,
+        })
+      }
+    }
+    series.clear()
+  }
+
+  const onRender: ProfilerOnRenderCallback = (id, phase, actualDuration, baseDuration) => {
+    const key = `${id}\u0000${phase}`
+    let entry = series.get(key)
+    if (!entry) {
+      entry = { id, phase, actual: [], base: [], count: 0, overBudget: 0, worst: 0 }
+      series.set(key, entry)
+    }
+
+    entry.count++
+    entry.actual.push(actualDuration)
+    entry.base.push(baseDuration)
+    if (entry.actual.length > maxSamples) {
+      entry.actual.shift()
+      entry.base.shift()
+    }
+    if (actualDuration > budgetFor(id)) {
+      entry.overBudget++
+      entry.worst = Math.max(entry.worst, actualDuration)
+    }
+
+    timer ??= setInterval(report, reportInterval)
+  }
+
+  return {
+    onRender,
+    report,
+    stop(): void {
+      if (timer) {
+        clearInterval(timer)
+        timer = null
+      }
+      report()
+    },
+  }
+}
+
+const ObservabilityContext = createContext<ObservabilityInstance | null>(null)
+
+export interface ObservabilityProviderProps {
+  observability: ObservabilityInstance
+  children?: ReactNode
+}
+
+/**
+ * Make an observability instance available to the hooks and error boundary below it.
+ *
+ * @example
+ * ```tsx
+ * const observability = createObservability({ telemetryEndpoint: '/api/telemetry' })
+ *
+ * root.render(
+ *   <ObservabilityProvider observability={observability}>
+ *     <App />
+ *   </ObservabilityProvider>
+ * )
+ * ```
+ */
+export function ObservabilityProvider({
+  observability,
+  children,
+}: ObservabilityProviderProps): ReactNode {
+  return createElement(ObservabilityContext.Provider, { value: observability }, children)
+}
+
+/**
+ * Read the instance from the nearest `ObservabilityProvider`.
+ * Throws when rendered outside a provider.
+ */
+export function useObservability(): ObservabilityInstance {
+  const observability = useContext(ObservabilityContext)
+  if (!observability) {
+    throw new Error('useObservability must be used within an ObservabilityProvider')
+  }
+  return observability
+}
+
+/**
+ * Track how long each render of the calling component takes, from the hook
+ * call to the layout effect after the commit.
+ *
+ * @example
+ * ```tsx
+ * function MyComponent() {
+ *   useTrackRender('MyComponent')
+ *   // ...
+ * }
+ * ```
+ */
+export function useTrackRender(componentName: string, options: DurationTrackingOptions = {}): void {
+  const observability = useObservability()
+  const renderStart = performance.now()
+
+  useLayoutEffect(() => {
+    trackRender(observability, componentName, performance.now() - renderStart, options)
+  })
+}
+
+/**
+ * `useEffect` that tracks how long the effect callback takes to run.
+ *
+ * @example
+ * ```tsx
+ * useTrackEffect('subscribeToFeed', () => {
+ *   const subscription = feed.subscribe(onItem)
+ *   return () => subscription.unsubscribe()
+ * }, [feed])
+ * ```
+ */
+export function useTrackEffect(
+  effectName: string,
+  effect: EffectCallback,
+  deps?: DependencyList,
+  options: DurationTrackingOptions = {}
+): void {
+  const observability = useObservability()
+  // Read when the effect runs, so only the caller's `deps` decide when it re-runs
+  const latest = useRef({ observability, effectName, effect, options })
+  latest.current = { observability, effectName, effect, options }
+
+  useEffect(() => {
+    const { observability, effectName, effect, options } = latest.current
+    const start = performance.now()
+    const cleanup = effect()
+    trackEffect(observability, effectName, performance.now() - start, options)
+    return cleanup
+  }, deps)
+}
+
+export interface ObservabilityErrorBoundaryProps {
+  children?: ReactNode
+  /** Rendered instead of the children after an error; functions receive a reset callback */
+  fallback?: ReactNode | ((error: Error, reset: () => void) => ReactNode)
+  /** Reported as the `boundary` property, to tell boundaries apart */
+  name?: string
+  /** Called after the error is captured */
+  onError?: (error: Error, info: ErrorInfo) => void
+  /** Instance to report to (defaults to the nearest `ObservabilityProvider`) */
+  observability?: ObservabilityInstance
+}
+
+interface ObservabilityErrorBoundaryState {
+  error: Error | null
+}
+
+/**
+ * Error boundary that reports render errors with their component stack
+ * through `captureException` and renders a fallback.
+ *
+ * @example
+ * ```tsx
+ * <ObservabilityErrorBoundary
+ *   name="checkout"
+ *   fallback={(error, reset) => <ErrorPage error={error} onRetry={reset} />}
+ * >
+ *   <Checkout />
+ * </ObservabilityErrorBoundary>
+ * ```
+ */
+export class ObservabilityErrorBoundary extends Component<
+  ObservabilityErrorBoundaryProps,
+  ObservabilityErrorBoundaryState
+> {
+  static contextType = ObservabilityContext
+  declare context: ObservabilityInstance | null
+
+  state: ObservabilityErrorBoundaryState = { error: null }
+
+  static getDerivedStateFromError(error: Error): ObservabilityErrorBoundaryState {
+    return { error }
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo): void {
+    const observability = this.props.observability ?? this.context
+    observability?.captureException(error, {
+      componentStack: info.componentStack ?? undefined,
+      boundary: this.props.name,
+    })
+    this.props.onError?.(error, info)
+  }
+
+  reset = (): void => {
+    this.setState({ error: null })
+  }
+
+  render(): ReactNode {
+    const { error } = this.state
+    if (!error) {
+      return this.props.children
+    }
+    const { fallback } = this.props
+    return typeof fallback === 'function' ? fallback(error, this.reset) : (fallback ?? null)
+  }
+}
+
+/**
+ * Minimal shape of a React Router data router (`createBrowserRouter` and friends).
+ */
+export interface ReactRouterLike {
+  state: ReactRouterState
+  subscribe: (listener: (state: ReactRouterState) => void) => () => void
+}
+
+export interface ReactRouterState {
+  location: { pathname: string }
+  historyAction: 'POP' | 'PUSH' | 'REPLACE'
+  navigation: { state: 'idle' | 'loading' | 'submitting' }
+  matches: Array<{ route: { path?: string } }>
+}
+
+/**
+ * Minimal shape of a TanStack Router instance.
+ */
+export interface TanStackRouterLike {
+  state: {
+    location: { pathname: string }
+    matches: Array<{ fullPath?: string; routeId: string }>
+  }
+  subscribe: (
+    eventType: 'onBeforeNavigate' | 'onResolved',
+    listener: (event: { toLocation: { pathname: string }; pathChanged: boolean }) => void
+  ) => () => void
+}
+
+const REACT_ROUTER_NAVIGATION_TYPES = {
+  POP: 'pop',
+  PUSH: 'push',
+  REPLACE: 'replace',
+} as const
+
+/**
+ * Join matched route paths into a template such as `/users/:id`.
+ */
+function reactRouterTemplate(matches: ReactRouterState['matches']): string | undefined {
+  const segments = matches
+    .map((match) => match.route.path)
+    .filter((path): path is string => Boolean(path))
+  if (segments.length === 0) {
+    return undefined
+  }
+  const joined = segments
+    .map((path) => path.replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .join('/')
+  return `/${joined}`
+}
+
+/**
+ * Report React Router navigations as route changes, using the matched route
+ * definitions as templates and timing loader resolution.
+ * Returns a function that stops tracking.
+ *
+ * @example
+ * ```tsx
+ * const router = createBrowserRouter(routes)
+ * trackReactRouter(observability, router)
+ * ```
+ */
+export function trackReactRouter(
+  observability: ObservabilityInstance,
+  router: ReactRouterLike
+): () => void {
+  let navigationStart: number | undefined
+
+  const report = (state: ReactRouterState, navigationType: NavigationType): void => {
+    observability.trackRouteChange(state.location.pathname, {
+      route: reactRouterTemplate(state.matches),
+      navigationType,
+      duration: navigationStart === undefined ? undefined : performance.now() - navigationStart,
+    })
+  }
+
+  report(router.state, 'initial')
+
+  return router.subscribe((state) => {
+    if (state.navigation.state !== 'idle') {
+      navigationStart ??= performance.now()
+      return
+    }
+    report(state, REACT_ROUTER_NAVIGATION_TYPES[state.historyAction])
+    navigationStart = undefined
+  })
+}
+
+/**
+ * Convert a TanStack route path (`/users/$userId`) into a template (`/users/:userId`).
+ */
+function tanStackTemplate(matches: TanStackRouterLike['state']['matches']): string | undefined {
+  const last = matches[matches.length - 1]
+  const path = last?.fullPath ?? last?.routeId
+  if (!path || path === '__root__') {
+    return undefined
+  }
+  return path.replace(/\$([\w]+)/g, ':$1').replace(/\/$/, '') || '/'
+}
+
+/**
+ * Report TanStack Router navigations as route changes, using the matched route
+ * path as the template and timing from navigation start to resolution.
+ * Returns a function that stops tracking.
+ *
+ * @example
+ * ```tsx
+ * const router = createRouter({ routeTree })
+ * trackTanStackRouter(observability, router)
+ * ```
+ */
+export function trackTanStackRouter(
+  observability: ObservabilityInstance,
+  router: TanStackRouterLike
+): () => void {
+  let navigationStart: number | undefined
+
+  observability.trackRouteChange(router.state.location.pathname, {
+    route: tanStackTemplate(router.state.matches),
+    navigationType: 'initial',
+  })
+
+  const unsubscribeBefore = router.subscribe('onBeforeNavigate', () => {
+    navigationStart = performance.now()
+  })
+  const unsubscribeResolved = router.subscribe('onResolved', (event) => {
+    if (event.pathChanged) {
+      observability.trackRouteChange(event.toLocation.pathname, {
+        route: tanStackTemplate(router.state.matches),
+        duration: navigationStart === undefined ? undefined : performance.now() - navigationStart,
+      })
+    }
+    navigationStart = undefined
+  })
+
+  return () => {
+    unsubscribeBefore()
+    unsubscribeResolved()
+  }
+}
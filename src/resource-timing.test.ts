@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { installResourceTiming, type ResourceSummary } from './resource-timing'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import { createMemoryExporter } from './test-utils'
+
+type EntryCallback = (list: { getEntries: () => PerformanceEntry[] }) => void
+
+class FakePerformanceObserver {
+  static supportedEntryTypes = ['resource']
+  static instances: FakePerformanceObserver[] = []
+
+  disconnected = false
+
+  constructor(private readonly callback: EntryCallback) {
+    FakePerformanceObserver.instances.push(this)
+  }
+
+  observe(): void {}
+
+  disconnect(): void {
+    this.disconnected = true
+  }
+
+  static emit(entries: Array<Partial<PerformanceResourceTiming>>): void {
+    for (const observer of FakePerformanceObserver.instances) {
+      if (!observer.disconnected) {
+        observer.callback({ getEntries: () => entries as PerformanceEntry[] })
+      }
+    }
+  }
+}
+
+const resource = (
+  name: string,
+  overrides: Partial<PerformanceResourceTiming> = {}
+): Partial<PerformanceResourceTiming> => ({
+  name,
+  initiatorType: 'script',
+  duration: 100,
+  domainLookupStart: 10,
+  domainLookupEnd: 15,
+  connectStart: 15,
+  secureConnectionStart: 20,
+  connectEnd: 30,
+  requestStart: 30,
+  responseStart: 80,
+  responseEnd: 110,
+  transferSize: 1200,
+  decodedBodySize: 4000,
+  ...overrides,
+})
+
+describe('resource timing', () => {
+  const origin = () => window.location.origin
+
+  beforeEach(() => {
+    FakePerformanceObserver.instances = []
+    vi.stubGlobal('PerformanceObserver', FakePerformanceObserver)
+    window.history.replaceState(null, '', '/')
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('summarizes resources by origin and initiator type', () => {
+    const summaries: ResourceSummary[] = []
+    const uninstall = installResourceTiming((summary) => summaries.push(summary), {
+      excludeUrls: [],
+    })
+
+    FakePerformanceObserver.emit([
+      resource(`${origin()}/assets/app.js`),
+      resource(`${origin()}/assets/vendor.js`, { transferSize: 0, duration: 5 }),
+      resource('https://cdn.example.com/widget.js', { duration: 400 }),
+      resource('https://cdn.example.com/font.woff2', { initiatorType: 'css', duration: 50 }),
+    ])
+    expect(summaries).toHaveLength(0)
+    uninstall()
+
+    const [summary] = summaries
+    expect(summary).toMatchObject({
+      path: '/',
+      count: 4,
+      cacheHits: 1,
+      thirdPartyCount: 2,
+      transferSize: 3600,
+      decodedSize: 16000,
+    })
+    expect(summary?.groups).toContainEqual({
+      origin: origin(),
+      initiatorType: 'script',
+      thirdParty: false,
+      count: 2,
+      cacheHits: 1,
+      transferSize: 1200,
+      decodedSize: 8000,
+      totalDuration: 105,
+      maxDuration: 100,
+    })
+    expect(summary?.groups).toContainEqual(
+      expect.objectContaining({ origin: 'https://cdn.example.com', initiatorType: 'css' })
+    )
+  })
+
+  it('lists the slowest resources with their network phases', () => {
+    const summaries: ResourceSummary[] = []
+    const uninstall = installResourceTiming((summary) => summaries.push(summary), {
+      excludeUrls: [],
+      maxSlowResources: 2,
+    })
+
+    FakePerformanceObserver.emit([
+      resource(`${origin()}/api/users/123`, { initiatorType: 'fetch', duration: 300 }),
+      resource(`${origin()}/fast.css`, { duration: 10 }),
+      resource('https://cdn.example.com/widget.js', { duration: 400 }),
+    ])
+    uninstall()
+
+    expect(summaries[0]?.slowest).toEqual([
+      expect.objectContaining({ url: 'https://cdn.example.com/widget.js', duration: 400 }),
+      {
+        url: `${origin()}/api/users/:id`,
+        initiatorType: 'fetch',
+        duration: 300,
+        dns: 5,
+        connect: 15,
+        tls: 10,
+        ttfb: 50,
+        download: 30,
+        transferSize: 1200,
+        decodedSize: 4000,
+        cached: false,
+      },
+    ])
+  })
+
+  it('reports one summary per page and skips excluded URLs', () => {
+    const summaries: ResourceSummary[] = []
+    const uninstall = installResourceTiming((summary) => summaries.push(summary), {
+      excludeUrls: ['/api/telemetry'],
+      ignoreUrls: [/analytics/],
+    })
+
+    FakePerformanceObserver.emit([
+      resource(`${origin()}/a.js`),
+      resource(`${origin()}/api/telemetry`),
+      resource('https://analytics.example.com/collect'),
+    ])
+    window.history.pushState(null, '', '/settings')
+    FakePerformanceObserver.emit([resource(`${origin()}/b.js`)])
+    uninstall()
+
+    expect(summaries.map((summary) => [summary.path, summary.count])).toEqual([
+      ['/', 1],
+      ['/settings', 1],
+    ])
+  })
+
+  it('grows the resource timing buffer when it fills up', () => {
+    const setBufferSize = vi.fn()
+    Object.defineProperty(performance, 'setResourceTimingBufferSize', {
+      value: setBufferSize,
+      configurable: true,
+    })
+    const addListener = vi.spyOn(performance, 'addEventListener')
+    const uninstall = installResourceTiming(() => {}, { excludeUrls: [] })
+
+    const [, handleBufferFull] =
+      addListener.mock.calls.find(([type]) => type === 'resourcetimingbufferfull') ?? []
+    const fill = handleBufferFull as () => void
+    for (let i = 0; i < 5; i++) {
+      fill()
+    }
+    uninstall()
+
+    expect(setBufferSize.mock.calls).toEqual([[500], [1000], [2000]])
+    Reflect.deleteProperty(performance, 'setResourceTimingBufferSize')
+  })
+
+  it('reports summaries as metrics and never records its own endpoint', async () => {
+    vi.useFakeTimers()
+    resetSessionCache()
+    sessionStorage.clear()
+    const { events: exported, exporter } = createMemoryExporter({
+      endpoints: ['https://collector.example.com'],
+    })
+    const obs = createObservability({ batchSize: 100, exporters: [exporter], trackResources: true })
+
+    FakePerformanceObserver.emit([
+      resource(`${origin()}/app.js`),
+      resource('https://collector.example.com/v1/logs'),
+    ])
+    obs.cleanup()
+    obs.flush()
+    await vi.runAllTimersAsync()
+    vi.useRealTimers()
+
+    const metric = exported.find((event) => event.name === 'resources.transfer_size')
+    expect(metric).toMatchObject({ type: 'metric', value: 1200 })
+    expect(metric?.properties).toMatchObject({ count: 1, thirdPartyCount: 0 })
+  })
+})
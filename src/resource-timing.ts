@@ -0,0 +1,230 @@
+/**
+ * Resource Timing
+ *
+ * Opt-in collection of `PerformanceResourceTiming` entries, summarized per
+ * page: totals, groups by origin and initiator type (marking third parties),
+ * and the slowest resources with their network phases. One summary is
+ * reported per page instead of one event per resource.
+ */
+
+import type { ResourceTimingConfig } from './types'
+import { matchesUrl, normalizePath, resolveUrl, type UrlPattern } from './url'
+
+const DEFAULT_MAX_SLOW_RESOURCES = 5
+
+// Browsers start with room for 250 entries; grow up to this many when it fills
+const INITIAL_BUFFER_SIZE = 250
+const MAX_BUFFER_SIZE = 2000
+
+export interface ResourceTimingOptions extends ResourceTimingConfig {
+  /** URLs that must never be recorded (the library's own endpoints) */
+  excludeUrls: UrlPattern[]
+}
+
+export interface ResourcePhases {
+  dns: number
+  connect: number
+  tls: number
+  ttfb: number
+  download: number
+}
+
+export interface ResourceRecord extends ResourcePhases {
+  /** Origin + normalized path */
+  url: string
+  initiatorType: string
+  duration: number
+  transferSize: number
+  decodedSize: number
+  cached: boolean
+}
+
+export interface ResourceGroup {
+  origin: string
+  initiatorType: string
+  thirdParty: boolean
+  count: number
+  cacheHits: number
+  transferSize: number
+  decodedSize: number
+  totalDuration: number
+  maxDuration: number
+}
+
+export interface ResourceSummary {
+  path: string
+  count: number
+  cacheHits: number
+  thirdPartyCount: number
+  transferSize: number
+  decodedSize: number
+  groups: ResourceGroup[]
+  slowest: ResourceRecord[]
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+/**
+ * Network phases of a resource. Cross-origin resources without
+ * `Timing-Allow-Origin` expose zeros for everything but the duration.
+ */
+function phasesOf(entry: PerformanceResourceTiming): ResourcePhases {
+  return {
+    dns: round(entry.domainLookupEnd - entry.domainLookupStart),
+    connect: round(entry.connectEnd - entry.connectStart),
+    tls:
+      entry.secureConnectionStart > 0 ? round(entry.connectEnd - entry.secureConnectionStart) : 0,
+    ttfb: entry.requestStart > 0 ? round(entry.responseStart - entry.requestStart) : 0,
+    download: entry.responseStart > 0 ? round(entry.responseEnd - entry.responseStart) : 0,
+  }
+}
+
+/**
+ * Served from the HTTP cache: nothing transferred, but a body was decoded.
+ */
+function isCacheHit(entry: PerformanceResourceTiming): boolean {
+  return entry.transferSize === 0 && entry.decodedBodySize > 0
+}
+
+function emptySummary(path: string): ResourceSummary {
+  return {
+    path,
+    count: 0,
+    cacheHits: 0,
+    thirdPartyCount: 0,
+    transferSize: 0,
+    decodedSize: 0,
+    groups: [],
+    slowest: [],
+  }
+}
+
+/**
+ * Observe resource timing entries and report a summary per page through
+ * `onSummary`: when the page changes, when the document is hidden and on
+ * uninstall. Returns a function that stops collection.
+ */
+export function installResourceTiming(
+  onSummary: (summary: ResourceSummary) => void,
+  options: ResourceTimingOptions
+): () => void {
+  if (
+    typeof window === 'undefined' ||
+    typeof PerformanceObserver === 'undefined' ||
+    !(PerformanceObserver.supportedEntryTypes ?? []).includes('resource')
+  ) {
+    return () => {}
+  }
+
+  const ignored = [...options.excludeUrls, ...(options.ignoreUrls ?? [])]
+  const maxSlowResources = options.maxSlowResources ?? DEFAULT_MAX_SLOW_RESOURCES
+  let summary = emptySummary(window.location.pathname)
+  let groups = new Map<string, ResourceGroup>()
+
+  function report(): void {
+    if (summary.count === 0) {
+      return
+    }
+    onSummary({ ...summary, groups: [...groups.values()] })
+    summary = emptySummary(summary.path)
+    groups = new Map()
+  }
+
+  function record(entry: PerformanceResourceTiming): void {
+    const url = resolveUrl(entry.name)
+    if (!url || matchesUrl(url, ignored)) {
+      return
+    }
+
+    const path = window.location.pathname
+    if (path !== summary.path) {
+      report()
+      summary = emptySummary(path)
+    }
+
+    const cached = isCacheHit(entry)
+    const thirdParty = url.origin !== window.location.origin
+    const initiatorType = entry.initiatorType || 'other'
+
+    summary.count++
+    summary.transferSize += entry.transferSize
+    summary.decodedSize += entry.decodedBodySize
+    if (cached) {
+      summary.cacheHits++
+    }
+    if (thirdParty) {
+      summary.thirdPartyCount++
+    }
+
+    const groupKey = `${url.origin} ${initiatorType}`
+    const group = groups.get(groupKey) ?? {
+      origin: url.origin,
+      initiatorType,
+      thirdParty,
+      count: 0,
+      cacheHits: 0,
+      transferSize: 0,
+      decodedSize: 0,
+      totalDuration: 0,
+      maxDuration: 0,
+    }
+    group.count++
+    group.cacheHits += cached ? 1 : 0
+    group.transferSize += entry.transferSize
+    group.decodedSize += entry.decodedBodySize
+    group.totalDuration = round(group.totalDuration + entry.duration)
+    group.maxDuration = Math.max(group.maxDuration, round(entry.duration))
+    groups.set(groupKey, group)
+
+    // Keep only the slowest resources, ordered slowest first
+    summary.slowest.push({
+      url: `${url.origin}${normalizePath(url.pathname)}`,
+      initiatorType,
+      duration: round(entry.duration),
+      ...phasesOf(entry),
+      transferSize: entry.transferSize,
+      decodedSize: entry.decodedBodySize,
+      cached,
+    })
+    summary.slowest.sort((a, b) => b.duration - a.duration)
+    summary.slowest.length = Math.min(summary.slowest.length, maxSlowResources)
+  }
+
+  const observer = new PerformanceObserver((list) => {
+    for (const entry of list.getEntries()) {
+      record(entry as PerformanceResourceTiming)
+    }
+  })
+  observer.observe({ type: 'resource', buffered: true })
+
+  // The observer keeps receiving entries once the buffer is full, but the page's
+  // own getEntriesByType() callers would not; grow the buffer rather than clear it
+  let bufferSize = INITIAL_BUFFER_SIZE
+  const handleBufferFull = (): void => {
+    if (bufferSize < MAX_BUFFER_SIZE) {
+      bufferSize = Math.min(bufferSize * 2, MAX_BUFFER_SIZE)
+      performance.setResourceTimingBufferSize(bufferSize)
+    }
+  }
+  const handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      report()
+    }
+  }
+  const observesBuffer = typeof performance.addEventListener === 'function'
+  if (observesBuffer) {
+    performance.addEventListener('resourcetimingbufferfull', handleBufferFull)
+  }
+  document.addEventListener('visibilitychange', handleVisibilityChange)
+
+  return () => {
+    observer.disconnect()
+    if (observesBuffer) {
+      performance.removeEventListener('resourcetimingbufferfull', handleBufferFull)
+    }
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+    report()
+  }
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createRouteTracker, installRouteTracking } from './route-tracking'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import { createMemoryExporter } from './test-utils'
+
+describe('route tracking', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    window.history.replaceState(null, '', '/')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('createRouteTracker', () => {
+    it('reports the previous route and time spent on it', () => {
+      const onPageView = vi.fn()
+      const tracker = createRouteTracker(onPageView)
+
+      tracker.navigate('/users/123', { navigationType: 'initial' })
+      vi.advanceTimersByTime(1500)
+      tracker.navigate('/settings', { duration: 42 })
+
+      expect(onPageView).toHaveBeenNthCalledWith(1, '/users/:id', {
+        navigationType: 'initial',
+        previousPath: undefined,
+        timeOnPreviousPage: undefined,
+        duration: undefined,
+      })
+      expect(onPageView).toHaveBeenNthCalledWith(2, '/settings', {
+        navigationType: 'push',
+        previousPath: '/users/:id',
+        timeOnPreviousPage: 1500,
+        duration: 42,
+      })
+    })
+
+    it('ignores repeated reports of the current path', () => {
+      const onPageView = vi.fn()
+      const tracker = createRouteTracker(onPageView)
+
+      tracker.navigate('/a')
+      tracker.navigate('/a', { navigationType: 'replace' })
+
+      expect(onPageView).toHaveBeenCalledTimes(1)
+    })
+
+    it('prefers an explicit route over the template function', () => {
+      const onPageView = vi.fn()
+      const tracker = createRouteTracker(onPageView, () => '/custom')
+
+      tracker.navigate('/teams/acme', { route: '/teams/:slug' })
+      tracker.navigate('/other')
+
+      expect(onPageView.mock.calls.map(([route]) => route)).toEqual(['/teams/:slug', '/custom'])
+    })
+  })
+
+  describe('installRouteTracking', () => {
+    it('reports the initial page, history changes and popstate', () => {
+      const onPageView = vi.fn()
+      const uninstall = installRouteTracking(createRouteTracker(onPageView))
+
+      window.history.pushState(null, '', '/orders/42')
+      window.history.replaceState(null, '', '/orders/42?tab=items')
+      window.history.replaceState(null, '', '/orders')
+      window.dispatchEvent(new PopStateEvent('popstate'))
+      window.history.pushState(null, '', '/')
+      window.dispatchEvent(new PopStateEvent('popstate'))
+
+      expect(onPageView.mock.calls.map(([route, props]) => [route, props.navigationType])).toEqual([
+        ['/', 'initial'],
+        ['/orders/:id', 'push'],
+        ['/orders', 'replace'],
+        ['/', 'push'],
+      ])
+
+      uninstall()
+    })
+
+    it('reads routes from the hash for hash routers', () => {
+      const onPageView = vi.fn()
+      const uninstall = installRouteTracking(createRouteTracker(onPageView), {
+        hashRouting: true,
+        trackInitialPage: false,
+      })
+
+      window.location.hash = '#/users/7?tab=profile'
+      window.dispatchEvent(new HashChangeEvent('hashchange'))
+
+      expect(onPageView).toHaveBeenCalledWith(
+        '/users/:id',
+        expect.objectContaining({ navigationType: 'hash' })
+      )
+
+      uninstall()
+      window.location.hash = ''
+    })
+
+    it('restores history methods and removes listeners on uninstall', () => {
+      const onPageView = vi.fn()
+      const { pushState, replaceState } = window.history
+      const uninstall = installRouteTracking(createRouteTracker(onPageView), {
+        trackInitialPage: false,
+      })
+
+      expect(window.history.pushState).not.toBe(pushState)
+      uninstall()
+
+      expect(window.history.pushState).toBe(pushState)
+      expect(window.history.replaceState).toBe(replaceState)
+      window.history.pushState(null, '', '/after')
+      window.dispatchEvent(new PopStateEvent('popstate'))
+      expect(onPageView).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createObservability', () => {
+    const { events: exported, exporter } = createMemoryExporter()
+
+    beforeEach(() => {
+      exported.length = 0
+      resetSessionCache()
+      sessionStorage.clear()
+    })
+
+    it('emits page views for route changes when trackRoutes is enabled', async () => {
+      const obs = createObservability({ batchSize: 100, exporters: [exporter], trackRoutes: true })
+
+      window.history.pushState(null, '', '/projects/99')
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      const pageViews = exported.filter((event) => event.name === 'page_view')
+      expect(pageViews.map((event) => event.properties?.path)).toEqual(['/', '/projects/:id'])
+      expect(pageViews[1]?.properties).toMatchObject({
+        navigationType: 'push',
+        previousPath: '/',
+      })
+      expect(pageViews[1]?.page).toBe('/projects/99')
+
+      obs.cleanup()
+    })
+
+    it('shares route state between manual reports and the history hooks', async () => {
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        trackRoutes: { trackInitialPage: false },
+      })
+
+      obs.trackRouteChange('/teams/acme', { route: '/teams/:slug' })
+      window.history.pushState(null, '', '/teams/acme')
+      window.history.pushState(null, '', '/')
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      const pageViews = exported.filter((event) => event.name === 'page_view')
+      expect(pageViews.map((event) => event.properties?.path)).toEqual(['/teams/:slug', '/'])
+      expect(pageViews[1]?.properties?.previousPath).toBe('/teams/:slug')
+
+      obs.cleanup()
+    })
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Route Tracking
+ *
+ * Turns client-side navigations into page views. The route tracker keeps the
+ * previous route so each page view carries where the user came from and how
+ * long they stayed; the history instrumentation feeds it from
+ * `pushState`/`replaceState`, `popstate` and `hashchange`.
+ */
+
+import type { NavigationType, RouteChangeOptions, RouteTrackingConfig } from './types'
+import { normalizePath } from './url'
+
+export type PageViewHandler = (path: string, properties: Record<string, unknown>) => void
+
+export interface RouteTracker {
+  /** Report a navigation to `path`; repeats of the current path are ignored */
+  navigate: (path: string, options?: RouteChangeOptions) => void
+}
+
+/**
+ * Create a route tracker reporting page views through `onPageView`, keyed by
+ * route template so identifiers never reach the `path` property.
+ */
+export function createRouteTracker(
+  onPageView: PageViewHandler,
+  routeTemplate: (path: string) => string = normalizePath
+): RouteTracker {
+  let current: { path: string; route: string; since: number } | null = null
+
+  return {
+    navigate(path: string, options: RouteChangeOptions = {}): void {
+      if (current?.path === path) {
+        return
+      }
+
+      const now = Date.now()
+      const route = options.route ?? routeTemplate(path)
+      onPageView(route, {
+        navigationType: options.navigationType ?? 'push',
+        previousPath: current?.route,
+        timeOnPreviousPage: current ? now - current.since : undefined,
+        duration: options.duration,
+      })
+      current = { path, route, since: now }
+    },
+  }
+}
+
+/**
+ * Path of the current location, reading `#/path` hashes for hash routers.
+ */
+function currentPath(hashRouting: boolean): string {
+  const { pathname, hash } = window.location
+  if (hashRouting && hash.startsWith('#/')) {
+    return hash.slice(1).split('?')[0] ?? '/'
+  }
+  return pathname
+}
+
+/**
+ * Patch `history.pushState`/`replaceState` and listen for `popstate` and
+ * `hashchange`, reporting each path change to the tracker.
+ * Returns a function that restores the originals and removes the listeners.
+ */
+export function installRouteTracking(
+  tracker: RouteTracker,
+  config: RouteTrackingConfig = {}
+): () => void {
+  if (typeof window === 'undefined') {
+    return () => {}
+  }
+
+  const hashRouting = config.hashRouting ?? false
+  const report = (navigationType: NavigationType): void => {
+    tracker.navigate(currentPath(hashRouting), { navigationType })
+  }
+
+  if (config.trackInitialPage ?? true) {
+    report('initial')
+  }
+
+  const { history } = window
+  const originalPushState = history.pushState
+  const originalReplaceState = history.replaceState
+
+  const pushState: History['pushState'] = function (this: History, ...args) {
+    originalPushState.apply(this, args)
+    report('push')
+  }
+  const replaceState: History['replaceState'] = function (this: History, ...args) {
+    originalReplaceState.apply(this, args)
+    report('replace')
+  }
+  history.pushState = pushState
+  history.replaceState = replaceState
+
+  const handlePopState = (): void => report('pop')
+  const handleHashChange = (): void => report('hash')
+  window.addEventListener('popstate', handlePopState)
+  window.addEventListener('hashchange', handleHashChange)
+
+  return () => {
+    if (history.pushState === pushState) {
+      history.pushState = originalPushState
+    }
+    if (history.replaceState === replaceState) {
+      history.replaceState = originalReplaceState
+    }
+    window.removeEventListener('popstate', handlePopState)
+    window.removeEventListener('hashchange', handleHashChange)
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createSampler } from './sampling'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import { createMemoryExporter } from './test-utils'
+import type { TelemetryEvent, TelemetryType } from './types'
+
+function event(type: TelemetryType, name: string, sessionId = 'session-1'): TelemetryEvent {
+  return { type, name, timestamp: 0, sessionId, page: '/' }
+}
+
+const sessions = Array.from({ length: 1000 }, (_, i) => `session-${i}`)
+
+describe('sampling', () => {
+  describe('createSampler', () => {
+    it('stamps kept events with their sample rate', () => {
+      const sample = createSampler({})
+      expect(sample(event('event', 'click'))).toMatchObject({ name: 'click', sampleRate: 1 })
+    })
+
+    it('applies per-type rates', () => {
+      const sample = createSampler({ types: { trace: 0, event: 1 } })
+
+      expect(sample(event('trace', 'checkout'))).toBeUndefined()
+      expect(sample(event('event', 'click'))?.sampleRate).toBe(1)
+    })
+
+    it('prefers the first matching name rule over type rates', () => {
+      const sample = createSampler({
+        types: { event: 1 },
+        rules: [
+          { name: 'scroll:*', rate: 0 },
+          { name: /^hover_/, type: 'event', rate: 0 },
+          { name: '*', type: 'metric', rate: 0.5 },
+        ],
+      })
+
+      expect(sample(event('event', 'scroll:depth'))).toBeUndefined()
+      expect(sample(event('event', 'hover_card'))).toBeUndefined()
+      expect(sample(event('trace', 'hover_card'))?.sampleRate).toBe(1)
+      expect(sample(event('event', 'scroll.depth'))?.sampleRate).toBe(1)
+    })
+
+    it('keeps errors regardless of rates unless disabled', () => {
+      expect(createSampler({ rate: 0 })(event('error', 'exception'))?.sampleRate).toBe(1)
+      expect(
+        createSampler({ rate: 0, alwaysKeepErrors: false })(event('error', 'x'))
+      ).toBeUndefined()
+    })
+
+    it('samples whole sessions consistently', () => {
+      const sample = createSampler({ rate: 0.3 })
+
+      const kept = sessions.filter((id) => sample(event('event', 'a', id)) !== undefined)
+      for (const id of sessions) {
+        const keptA = sample(event('event', 'a', id)) !== undefined
+        const keptB = sample(event('trace', 'b', id)) !== undefined
+        expect(keptB).toBe(keptA)
+      }
+      // Roughly 30% of sessions are sampled in
+      expect(kept.length).toBeGreaterThan(200)
+      expect(kept.length).toBeLessThan(400)
+    })
+
+    it('keeps sessions sampled at a lower rate when the rate is higher', () => {
+      const low = createSampler({ rate: 0.1 })
+      const high = createSampler({ rate: 0.5 })
+
+      for (const id of sessions) {
+        if (low(event('event', 'a', id))) {
+          expect(high(event('event', 'a', id))).toBeDefined()
+        }
+      }
+    })
+
+    it('rolls per event when session consistency is off', () => {
+      const random = vi.spyOn(Math, 'random').mockReturnValueOnce(0.1).mockReturnValueOnce(0.9)
+      const sample = createSampler({ rate: 0.5, sessionConsistent: false })
+
+      expect(sample(event('event', 'a'))?.sampleRate).toBe(0.5)
+      expect(sample(event('event', 'a'))).toBeUndefined()
+      random.mockRestore()
+    })
+  })
+
+  describe('observability integration', () => {
+    beforeEach(() => {
+      resetSessionCache()
+      sessionStorage.clear()
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
+    it('drops sampled-out events at collection time', async () => {
+      const { events: exported, exporter } = createMemoryExporter()
+      const obs = createObservability({
+        batchSize: 10,
+        flushInterval: 1000,
+        sampling: { types: { event: 0 } },
+        exporters: [exporter],
+      })
+
+      obs.trackEvent('click')
+      obs.trackError('exception', new Error('boom'))
+      obs.trackMetric('LCP', 1200)
+      await vi.advanceTimersByTimeAsync(1100)
+
+      expect(exported.map((e) => [e.type, e.sampleRate])).toEqual([
+        ['error', 1],
+        ['metric', 1],
+      ])
+      obs.cleanup()
+    })
+  })
+})
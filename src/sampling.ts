@@ -0,0 +1,98 @@
+/**
+ * Sampling
+ *
+ * Head-based sampling applied as events are collected. Rates resolve from
+ * name rules, then per-type rates, then the default. Session-consistent
+ * decisions hash the session ID to a fixed threshold, so a session sampled in
+ * at a given rate keeps every event sampled at that rate or higher.
+ */
+
+import type { SamplingConfig, SamplingRule, TelemetryEvent } from './types'
+
+/**
+ * Decide whether to keep an event. Kept events are returned stamped with
+ * their `sampleRate`; dropped events return undefined.
+ */
+export type Sampler = (event: TelemetryEvent) => TelemetryEvent | undefined
+
+/**
+ * Convert a glob (`*` wildcard) into an anchored RegExp.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`)
+}
+
+function clampRate(rate: number): number {
+  return Number.isFinite(rate) ? Math.min(Math.max(rate, 0), 1) : 1
+}
+
+/**
+ * 32-bit FNV-1a hash of a string, as an unsigned integer.
+ */
+export function fnv1a(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Map a string to a stable value in [0, 1).
+ */
+function hashToUnitInterval(value: string): number {
+  return fnv1a(value) / 0x100000000
+}
+
+/**
+ * Create a sampler from configuration.
+ *
+ * @example
+ * ```ts
+ * const sample = createSampler({
+ *   types: { trace: 0.1 },
+ *   rules: [{ name: 'click:*', rate: 0.01 }],
+ * })
+ * ```
+ */
+export function createSampler(config: SamplingConfig): Sampler {
+  const defaultRate = clampRate(config.rate ?? 1)
+  const sessionConsistent = config.sessionConsistent ?? true
+  const alwaysKeepErrors = config.alwaysKeepErrors ?? true
+  const rules = (config.rules ?? []).map((rule: SamplingRule) => ({
+    pattern: typeof rule.name === 'string' ? globToRegExp(rule.name) : rule.name,
+    type: rule.type,
+    rate: clampRate(rule.rate),
+  }))
+
+  function rateFor(event: TelemetryEvent): number {
+    if (alwaysKeepErrors && event.type === 'error') {
+      return 1
+    }
+
+    const rule = rules.find(
+      (candidate) =>
+        (!candidate.type || candidate.type === event.type) && candidate.pattern.test(event.name)
+    )
+    if (rule) {
+      return rule.rate
+    }
+
+    const typeRate = config.types?.[event.type]
+    return typeRate === undefined ? defaultRate : clampRate(typeRate)
+  }
+
+  return (event) => {
+    const sampleRate = rateFor(event)
+    const roll = sessionConsistent ? hashToUnitInterval(event.sessionId) : Math.random()
+    if (sampleRate < 1 && roll >= sampleRate) {
+      return undefined
+    }
+    return { ...event, sampleRate }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * PII Scrubber
+ *
+ * Built-in event processor that redacts personal data and credentials before
+ * events are queued: emails, bearer tokens, well-known API keys, JWTs, card
+ * numbers (Luhn-checked) and secret query-string parameters, plus the values
+ * of sensitive property keys.
+ */
+
+import type { EventProcessor, ScrubConfig, SpanData, TelemetryEvent } from './types'
+
+const DEFAULT_REPLACEMENT = '[REDACTED]'
+const MAX_DEPTH = 10
+
+const DEFAULT_DENY_KEYS = [
+  'password',
+  'passwd',
+  'secret',
+  'token',
+  'apikey',
+  'authorization',
+  'cookie',
+  'creditcard',
+  'cardnumber',
+  'cvv',
+  'cvc',
+  'ssn',
+  'privatekey',
+]
+
+const DEFAULT_DENY_QUERY_PARAMS = [
+  'token',
+  'access_token',
+  'refresh_token',
+  'id_token',
+  'api_key',
+  'apikey',
+  'key',
+  'secret',
+  'client_secret',
+  'password',
+  'pwd',
+  'auth',
+  'code',
+  'signature',
+  'sig',
+  'jwt',
+  'session',
+  'sessionid',
+]
+
+// Values stop at quotes, parens and colons so `file.js?sig=x:1:2` in a stack keeps its position
+const QUERY_PARAM = /([?&;#])([^=&#\s?]+)=([^&#\s)"':]*)/g
+const JWT = /\beyJ[\w-]*\.[\w-]*\.[\w-]+/g
+const AUTH_HEADER_VALUE = /\b(Bearer|Basic)\s+[\w\-.~+/]+=*/gi
+const API_KEY =
+  /\b(?:(?:sk|pk|rk)_(?:live|test)_[0-9a-zA-Z]{8,}|gh[pousr]_[0-9A-Za-z]{20,}|xox[abprs]-[0-9A-Za-z-]{10,}|AKIA[0-9A-Z]{16})\b/g
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi
+const CARD_NUMBER = /\b\d(?:[ -]?\d){12,18}\b/g
+
+/**
+ * Lowercase and drop separators so `api_key`, `Api-Key` and `apiKey` compare equal.
+ */
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_.\s]/g, '')
+}
+
+/**
+ * Luhn checksum, to avoid redacting arbitrary long numbers (timestamps, IDs).
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0
+  let double = false
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i])
+    if (double) {
+      digit *= 2
+      if (digit > 9) {
+        digit -= 9
+      }
+    }
+    sum += digit
+    double = !double
+  }
+  return sum % 10 === 0
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') {
+    return false
+  }
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * Create an event processor that redacts PII. Enabled through
+ * `ObservabilityConfig.scrub`; also usable directly in `eventProcessors`.
+ *
+ * @example
+ * ```ts
+ * const scrub = createScrubber({ denyKeys: ['dateOfBirth'], denyQueryParams: ['invite'] })
+ * ```
+ */
+export function createScrubber(config: ScrubConfig = {}): EventProcessor {
+  const replacement = config.replacement ?? DEFAULT_REPLACEMENT
+  const denyKeys = [...DEFAULT_DENY_KEYS, ...(config.denyKeys ?? [])].map((key) =>
+    typeof key === 'string' ? normalizeKey(key) : key
+  )
+  const denyQueryParams = new Set(
+    [...DEFAULT_DENY_QUERY_PARAMS, ...(config.denyQueryParams ?? [])].map(normalizeKey)
+  )
+  const patterns = config.patterns ?? []
+
+  function isDeniedKey(key: string): boolean {
+    const normalized = normalizeKey(key)
+    return denyKeys.some((deny) =>
+      typeof deny === 'string' ? normalized.includes(deny) : deny.test(key)
+    )
+  }
+
+  function scrubString(value: string): string {
+    let result = value
+      .replace(QUERY_PARAM, (match, separator: string, name: string) =>
+        denyQueryParams.has(normalizeKey(name)) ? `${separator}${name}=${replacement}` : match
+      )
+      .replace(JWT, replacement)
+      .replace(AUTH_HEADER_VALUE, (_match, scheme: string) => `${scheme} ${replacement}`)
+      .replace(API_KEY, replacement)
+      .replace(EMAIL, replacement)
+      .replace(CARD_NUMBER, (match) =>
+        passesLuhn(match.replace(/[ -]/g, '')) ? replacement : match
+      )
+    for (const pattern of patterns) {
+      result = result.replace(pattern, replacement)
+    }
+    return result
+  }
+
+  function scrubValue(value: unknown, depth: number): unknown {
+    if (typeof value === 'string') {
+      return scrubString(value)
+    }
+    if (depth >= MAX_DEPTH) {
+      return value
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => scrubValue(item, depth + 1))
+    }
+    if (isPlainObject(value)) {
+      return scrubRecord(value, depth + 1)
+    }
+    return value
+  }
+
+  function scrubRecord(record: Record<string, unknown>, depth: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(record)) {
+      result[key] =
+        value !== undefined && value !== null && isDeniedKey(key)
+          ? replacement
+          : scrubValue(value, depth)
+    }
+    return result
+  }
+
+  function scrubSpan(span: SpanData): SpanData {
+    return {
+      ...span,
+      status: {
+        ...span.status,
+        message: span.status.message && scrubString(span.status.message),
+      },
+      events: span.events.map((event) => ({
+        ...event,
+        attributes: event.attributes && scrubRecord(event.attributes, 0),
+      })),
+    }
+  }
+
+  return (event: TelemetryEvent): TelemetryEvent => ({
+    ...event,
+    // Span names carry URLs (`GET https://…/reset?token=…`)
+    name: scrubString(event.name),
+    page: scrubString(event.page),
+    properties: event.properties && scrubRecord(event.properties, 0),
+    span: event.span && scrubSpan(event.span),
+  })
+}
@@ -1,5 +1,11 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { getSessionId, getCurrentPage, isDevelopment, resetSessionCache } from './session'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  createSessionManager,
+  getSessionId,
+  getCurrentPage,
+  isDevelopment,
+  resetSessionCache,
+} from './session'
 
 describe('session', () => {
   beforeEach(() => {
@@ -10,7 +16,7 @@ describe('session', () => {
   describe('getSessionId', () => {
     it('generates a new session ID if none exists', () => {
       const sessionId = getSessionId('test_session')
-      expect(sessionId).toMatch(/^\d+-[a-z0-9]+$/)
+      expect(sessionId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
     })
 
     it('returns cached session ID on subsequent calls', () => {
@@ -38,6 +44,110 @@ describe('session', () => {
     })
   })
 
+  describe('createSessionManager', () => {
+    const MINUTE = 60 * 1000
+
+    beforeEach(() => {
+      localStorage.clear()
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('keeps one session while activity continues', () => {
+      const sessions = createSessionManager({ storageKey: 'test_session' })
+      const id = sessions.touch()
+
+      for (let i = 0; i < 10; i++) {
+        vi.advanceTimersByTime(20 * MINUTE)
+        expect(sessions.touch()).toBe(id)
+      }
+    })
+
+    it('rotates after inactivity and reports the ended session', () => {
+      const onStart = vi.fn()
+      const onEnd = vi.fn()
+      const sessions = createSessionManager({
+        storageKey: 'test_session',
+        inactivityTimeout: 30 * MINUTE,
+        onStart,
+        onEnd,
+      })
+      const first = sessions.touch()
+      vi.advanceTimersByTime(10 * MINUTE)
+      sessions.touch()
+
+      vi.advanceTimersByTime(30 * MINUTE)
+      const second = sessions.getSessionId()
+
+      expect(second).not.toBe(first)
+      expect(onStart).toHaveBeenCalledTimes(2)
+      expect(onEnd).toHaveBeenCalledWith(
+        expect.objectContaining({ id: first, lastActivity: expect.any(Number) }),
+        'inactivity'
+      )
+      const [ended] = onEnd.mock.calls[0] ?? []
+      expect(ended.lastActivity - ended.startedAt).toBe(10 * MINUTE)
+    })
+
+    it('reads without extending the session', () => {
+      const sessions = createSessionManager({ storageKey: 'test_session', inactivityTimeout: MINUTE })
+      const id = sessions.touch()
+
+      vi.advanceTimersByTime(MINUTE / 2)
+      sessions.getSessionId()
+      vi.advanceTimersByTime(MINUTE / 2)
+
+      expect(sessions.getSessionId()).not.toBe(id)
+    })
+
+    it('rotates at the maximum duration despite activity', () => {
+      const onEnd = vi.fn()
+      const sessions = createSessionManager({
+        storageKey: 'test_session',
+        maxDuration: 60 * MINUTE,
+        onEnd,
+      })
+      const id = sessions.touch()
+
+      for (let i = 0; i < 6; i++) {
+        vi.advanceTimersByTime(10 * MINUTE)
+        sessions.touch()
+      }
+
+      expect(sessions.getSessionId()).not.toBe(id)
+      expect(onEnd).toHaveBeenCalledWith(expect.objectContaining({ id }), 'max_duration')
+    })
+
+    it('shares the session and its activity across tabs', () => {
+      const tabA = createSessionManager({ storageKey: 'test_session', inactivityTimeout: 30 * MINUTE })
+      const tabB = createSessionManager({ storageKey: 'test_session', inactivityTimeout: 30 * MINUTE })
+      const id = tabA.touch()
+
+      // Only tab B is active; tab A must not consider the session expired
+      for (let i = 0; i < 3; i++) {
+        vi.advanceTimersByTime(20 * MINUTE)
+        expect(tabB.touch()).toBe(id)
+      }
+      expect(tabA.getSessionId()).toBe(id)
+
+      // A rotation in one tab is adopted by the other without a second rotation
+      const rotated = tabB.rotate()
+      expect(tabA.getSessionId()).toBe(rotated)
+    })
+
+    it('starts a fresh session on rotate', () => {
+      const onEnd = vi.fn()
+      const sessions = createSessionManager({ storageKey: 'test_session', onEnd })
+      const id = sessions.touch()
+
+      expect(sessions.rotate()).not.toBe(id)
+      expect(onEnd).toHaveBeenCalledWith(expect.objectContaining({ id }), 'reset')
+    })
+  })
+
   describe('getCurrentPage', () => {
     it('returns the current pathname', () => {
       const page = getCurrentPage()
@@ -1,15 +1,26 @@
 /**
  * Session Management
  *
- * Session ID generation and page tracking utilities.
+ * Session ID generation and page tracking utilities. Sessions managed by
+ * `createSessionManager` are shared across tabs through localStorage and
+ * rotate after a period of inactivity or once they reach a maximum duration.
  */
 
+import type { SessionConfig } from './types'
+
+const DEFAULT_INACTIVITY_TIMEOUT_MS = 30 * 60 * 1000 // 30 minutes
+const DEFAULT_MAX_DURATION_MS = 4 * 60 * 60 * 1000 // 4 hours
+const ACTIVITY_WRITE_INTERVAL_MS = 1000 // throttle localStorage writes while active
+
 let cachedSessionId: string | null = null
 
 /**
  * Generate a unique session ID
  */
 function generateSessionId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
   return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
 }
 
@@ -45,6 +56,139 @@ export function resetSessionCache(): void {
   cachedSessionId = null
 }
 
+/**
+ * A session as stored in localStorage and shared by every tab.
+ */
+export interface SessionRecord {
+  id: string
+  /** Epoch ms the session started */
+  startedAt: number
+  /** Epoch ms of the last recorded activity in any tab */
+  lastActivity: number
+}
+
+export type SessionEndReason = 'inactivity' | 'max_duration' | 'reset'
+
+export interface SessionManagerOptions extends SessionConfig {
+  /** localStorage key holding the shared session record */
+  storageKey: string
+  /** Called when this tab starts a new session */
+  onStart?: (session: SessionRecord) => void
+  /** Called when this tab finds the session expired, or it is reset, before the new one starts */
+  onEnd?: (session: SessionRecord, reason: SessionEndReason) => void
+}
+
+export interface SessionManager {
+  /** Current session ID, rotating an expired session */
+  getSessionId: () => string
+  /** Record activity, extending the session, and return its ID */
+  touch: () => string
+  /** End the current session and start a new one */
+  rotate: () => string
+  /** Forget the session without ending it; the next read starts a new one */
+  clear: () => void
+}
+
+function readRecord(key: string): SessionRecord | null {
+  try {
+    const raw = localStorage.getItem(key)
+    const record = raw ? (JSON.parse(raw) as SessionRecord) : null
+    return record && typeof record.id === 'string' ? record : null
+  } catch {
+    return null
+  }
+}
+
+function writeRecord(key: string, record: SessionRecord): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(record))
+  } catch {
+    // Storage full or blocked: the session lives in memory for this tab only
+  }
+}
+
+/**
+ * Create a session manager. Every read goes through localStorage so tabs
+ * share one session, and whichever tab first sees it expired rotates it.
+ */
+export function createSessionManager(options: SessionManagerOptions): SessionManager {
+  const inactivityTimeout = options.inactivityTimeout ?? DEFAULT_INACTIVITY_TIMEOUT_MS
+  const maxDuration = options.maxDuration ?? DEFAULT_MAX_DURATION_MS
+  let current: SessionRecord | null = null
+
+  function expiryReason(record: SessionRecord, now: number): SessionEndReason | null {
+    if (now - record.lastActivity >= inactivityTimeout) {
+      return 'inactivity'
+    }
+    if (now - record.startedAt >= maxDuration) {
+      return 'max_duration'
+    }
+    return null
+  }
+
+  /**
+   * Replace the session. The new record is stored before the callbacks run,
+   * so events they collect see the new session.
+   */
+  function start(now: number, ended: SessionRecord | null, reason: SessionEndReason): string {
+    const next: SessionRecord = { id: generateSessionId(), startedAt: now, lastActivity: now }
+    current = next
+    writeRecord(options.storageKey, next)
+
+    if (ended) {
+      options.onEnd?.(ended, reason)
+    }
+    options.onStart?.(next)
+    return next.id
+  }
+
+  function resolve(extend: boolean): string {
+    if (typeof window === 'undefined') {
+      return 'ssr'
+    }
+
+    const now = Date.now()
+    // Another tab may have extended or rotated the shared session
+    const stored = readRecord(options.storageKey) ?? current
+    if (!stored) {
+      return start(now, null, 'inactivity')
+    }
+
+    const reason = expiryReason(stored, now)
+    if (reason) {
+      return start(now, stored, reason)
+    }
+
+    current = stored
+    if (extend && now - stored.lastActivity >= ACTIVITY_WRITE_INTERVAL_MS) {
+      current = { ...stored, lastActivity: now }
+      writeRecord(options.storageKey, current)
+    }
+    return current.id
+  }
+
+  return {
+    getSessionId: () => resolve(false),
+    touch: () => resolve(true),
+
+    rotate(): string {
+      if (typeof window === 'undefined') {
+        return 'ssr'
+      }
+      return start(Date.now(), readRecord(options.storageKey) ?? current, 'reset')
+    },
+
+    clear(): void {
+      current = null
+      try {
+        localStorage.removeItem(options.storageKey)
+      } catch {
+        // Nothing persisted
+      }
+    },
+  }
+}
+
 /**
  * Get the current page path
  */
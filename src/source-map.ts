@@ -0,0 +1,159 @@
+/**
+ * Source Map Decoding
+ *
+ * Minimal Source Map v3 reader: decodes the VLQ `mappings` field and looks
+ * up original positions. Index maps (`sections`) are not supported; tsdown
+ * and Vite emit regular maps.
+ */
+
+export interface RawSourceMap {
+  version: number
+  file?: string
+  sourceRoot?: string
+  sources: Array<string | null>
+  names?: string[]
+  mappings: string
+}
+
+export interface OriginalPosition {
+  source: string
+  /** 1-based line */
+  line: number
+  /** 1-based column */
+  column: number
+  name?: string | undefined
+}
+
+export interface SourceMapConsumer {
+  /**
+   * Find the original position for a 1-based generated line and column.
+   */
+  originalPositionFor: (line: number, column: number) => OriginalPosition | undefined
+}
+
+// [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?]
+type Segment = [number, number, number, number, number | undefined]
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+const BASE64_VALUES = new Map(Array.from(BASE64, (char, index) => [char, index]))
+
+/**
+ * Decode one comma-separated segment of Base64 VLQ values.
+ */
+function decodeVlq(segment: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let shift = 0
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char)
+    if (digit === undefined) {
+      throw new Error(`Invalid VLQ character: ${char}`)
+    }
+    value += (digit & 31) * 2 ** shift
+    if (digit & 32) {
+      shift += 5
+    } else {
+      // Lowest bit carries the sign
+      values.push(value % 2 === 1 ? -Math.floor(value / 2) : value / 2)
+      value = 0
+      shift = 0
+    }
+  }
+
+  return values
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = []
+  // Source, original line/column and name are relative across the whole map
+  let sourceIndex = 0
+  let originalLine = 0
+  let originalColumn = 0
+  let nameIndex = 0
+
+  for (const lineText of mappings.split(';')) {
+    const segments: Segment[] = []
+    let generatedColumn = 0
+
+    for (const segmentText of lineText.split(',')) {
+      if (segmentText === '') {
+        continue
+      }
+      const fields = decodeVlq(segmentText)
+      generatedColumn += fields[0] ?? 0
+      if (fields.length < 4) {
+        // Generated-only segment: no original position
+        continue
+      }
+      sourceIndex += fields[1] ?? 0
+      originalLine += fields[2] ?? 0
+      originalColumn += fields[3] ?? 0
+      let name: number | undefined
+      if (fields.length >= 5) {
+        nameIndex += fields[4] ?? 0
+        name = nameIndex
+      }
+      segments.push([generatedColumn, sourceIndex, originalLine, originalColumn, name])
+    }
+
+    segments.sort((a, b) => a[0] - b[0])
+    lines.push(segments)
+  }
+
+  return lines
+}
+
+/**
+ * Parse a source map and return a consumer for position lookups.
+ */
+export function parseSourceMap(map: RawSourceMap | string): SourceMapConsumer {
+  const raw: RawSourceMap = typeof map === 'string' ? JSON.parse(map) : map
+  if (raw.version !== 3) {
+    throw new Error(`Unsupported source map version: ${raw.version}`)
+  }
+
+  const lines = decodeMappings(raw.mappings)
+  const root = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, '/') : ''
+
+  return {
+    originalPositionFor(line: number, column: number): OriginalPosition | undefined {
+      const segments = lines[line - 1]
+      if (!segments || segments.length === 0) {
+        return undefined
+      }
+
+      // Last segment starting at or before the (0-based) generated column
+      const target = column - 1
+      let low = 0
+      let high = segments.length - 1
+      let found: Segment | undefined
+      while (low <= high) {
+        const mid = (low + high) >> 1
+        const segment = segments[mid] as Segment
+        if (segment[0] <= target) {
+          found = segment
+          low = mid + 1
+        } else {
+          high = mid - 1
+        }
+      }
+
+      if (!found) {
+        return undefined
+      }
+
+      const source = raw.sources[found[1]]
+      if (source === null || source === undefined) {
+        return undefined
+      }
+
+      return {
+        source: `${root}${source}`,
+        line: found[2] + 1,
+        column: found[3] + 1,
+        name: found[4] === undefined ? undefined : raw.names?.[found[4]],
+      }
+    },
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import { isInAppFile, parseStack } from './stack-trace'
+
+describe('stack-trace', () => {
+  const origin = window.location.origin
+
+  describe('parseStack', () => {
+    it('parses V8 (Chrome/Edge) stacks', () => {
+      const stack = [
+        'Error: failed for user@example.com',
+        `    at UserList.render (${origin}/assets/index-abc.js:12:345)`,
+        `    at async loadUsers (${origin}/assets/index-abc.js:20:5)`,
+        `    at ${origin}/assets/index-abc.js:1:99`,
+        '    at new Promise (<anonymous>)',
+        '    at Object.callback (https://cdn.example.com/react-dom.js:4:10)',
+      ].join('\n')
+
+      expect(parseStack(stack)).toEqual([
+        {
+          function: 'UserList.render',
+          file: `${origin}/assets/index-abc.js`,
+          line: 12,
+          column: 345,
+          inApp: true,
+        },
+        {
+          function: 'loadUsers',
+          file: `${origin}/assets/index-abc.js`,
+          line: 20,
+          column: 5,
+          inApp: true,
+        },
+        {
+          function: undefined,
+          file: `${origin}/assets/index-abc.js`,
+          line: 1,
+          column: 99,
+          inApp: true,
+        },
+        {
+          function: 'new Promise',
+          file: '<anonymous>',
+          line: undefined,
+          column: undefined,
+          inApp: false,
+        },
+        {
+          function: 'Object.callback',
+          file: 'https://cdn.example.com/react-dom.js',
+          line: 4,
+          column: 10,
+          inApp: false,
+        },
+      ])
+    })
+
+    it('attributes V8 eval frames to the calling script', () => {
+      const stack = `Error\n    at eval (eval at run (${origin}/app.js:5:7), <anonymous>:1:1)`
+      expect(parseStack(stack)[0]).toMatchObject({
+        function: 'eval',
+        file: `${origin}/app.js`,
+        line: 5,
+        column: 7,
+      })
+    })
+
+    it('parses SpiderMonkey (Firefox) stacks', () => {
+      const stack = [
+        `render@${origin}/assets/index-abc.js:12:345`,
+        `loadUsers/<@${origin}/assets/index-abc.js:20:5`,
+        `@${origin}/assets/index-abc.js:1:99`,
+        `run@${origin}/app.js line 5 > eval:1:1`,
+      ].join('\n')
+
+      expect(parseStack(stack)).toEqual([
+        { function: 'render', file: `${origin}/assets/index-abc.js`, line: 12, column: 345, inApp: true },
+        {
+          function: 'loadUsers/<',
+          file: `${origin}/assets/index-abc.js`,
+          line: 20,
+          column: 5,
+          inApp: true,
+        },
+        { function: undefined, file: `${origin}/assets/index-abc.js`, line: 1, column: 99, inApp: true },
+        { function: 'run', file: `${origin}/app.js`, line: 5, column: undefined, inApp: true },
+      ])
+    })
+
+    it('parses JavaScriptCore (Safari) stacks', () => {
+      const stack = [
+        `render@${origin}/assets/index-abc.js:12:345`,
+        'forEach@[native code]',
+        `global code@${origin}/assets/index-abc.js:1:99`,
+      ].join('\n')
+
+      expect(parseStack(stack)).toEqual([
+        { function: 'render', file: `${origin}/assets/index-abc.js`, line: 12, column: 345, inApp: true },
+        { function: 'forEach', file: '[native code]', line: undefined, column: undefined, inApp: false },
+        {
+          function: 'global code',
+          file: `${origin}/assets/index-abc.js`,
+          line: 1,
+          column: 99,
+          inApp: true,
+        },
+      ])
+    })
+
+    it('uses a custom in-app classifier', () => {
+      const frames = parseStack(
+        '    at a (https://static.example.com/app.js:1:1)',
+        (file) => file.startsWith('https://static.example.com/')
+      )
+      expect(frames[0]?.inApp).toBe(true)
+    })
+
+    it('returns no frames for unparseable input', () => {
+      expect(parseStack('Error: no stack here')).toEqual([])
+    })
+  })
+
+  describe('isInAppFile', () => {
+    it('excludes vendor, extension and native files', () => {
+      expect(isInAppFile(`${origin}/node_modules/.vite/deps/react.js`)).toBe(false)
+      expect(isInAppFile('chrome-extension://abc/content.js')).toBe(false)
+      expect(isInAppFile('https://cdn.example.com/lib.js')).toBe(false)
+      expect(isInAppFile(`${origin}/src/main.tsx`)).toBe(true)
+      expect(isInAppFile('/assets/index.js')).toBe(true)
+    })
+  })
+})
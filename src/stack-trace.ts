@@ -0,0 +1,124 @@
+/**
+ * Stack Trace Parsing
+ *
+ * Turns V8 (Chrome, Edge), SpiderMonkey (Firefox) and JavaScriptCore (Safari)
+ * `error.stack` strings into structured frames.
+ */
+
+import type { StackFrame } from './types'
+
+const MAX_FRAMES = 50
+
+const LOCATION = /^(.*):(\d+):(\d+)$/
+const EVAL_ORIGIN = /\((\S+?):(\d+):(\d+)\)/
+const GECKO_FRAME = /^(.*?)@(.*?):(\d+)(?::(\d+))?$/
+const GECKO_EVAL = /^(.*?) line (\d+) > (?:eval|Function)/
+const NON_APP_FILE = /\/node_modules\/|^(?:chrome|moz|safari(?:-web)?)-extension:|^<anonymous>$|^native$|\[native code\]/
+
+/**
+ * Default in-app check: same-origin (or relative) files outside node_modules.
+ */
+export function isInAppFile(file: string): boolean {
+  if (NON_APP_FILE.test(file)) {
+    return false
+  }
+  if (typeof window === 'undefined' || !/^[a-z][\w+.-]*:/i.test(file)) {
+    return true
+  }
+  return file.startsWith(`${window.location.origin}/`)
+}
+
+function toFrame(
+  fn: string | undefined,
+  file: string | undefined,
+  line: string | undefined,
+  column: string | undefined,
+  isInApp: (file: string) => boolean
+): StackFrame {
+  return {
+    function: fn || undefined,
+    file: file || undefined,
+    line: line ? Number(line) : undefined,
+    column: column ? Number(column) : undefined,
+    inApp: file ? isInApp(file) : false,
+  }
+}
+
+/**
+ * Parse a V8 frame: `at fn (file:line:col)`, `at file:line:col`,
+ * `at async fn (...)` or `at eval (eval at fn (file:line:col), <anonymous>:1:1)`.
+ */
+function parseV8Frame(line: string, isInApp: (file: string) => boolean): StackFrame {
+  let text = line.trim().slice('at '.length)
+  if (text.startsWith('async ')) {
+    text = text.slice('async '.length)
+  }
+
+  let fn: string | undefined
+  let location = text
+  const open = text.indexOf(' (')
+  if (open !== -1 && text.endsWith(')')) {
+    fn = text.slice(0, open)
+    location = text.slice(open + 2, -1)
+  }
+
+  // Eval'd code: attribute the frame to the script that called eval
+  const evalOrigin = location.startsWith('eval at ') ? EVAL_ORIGIN.exec(location) : null
+  if (evalOrigin) {
+    return toFrame(fn, evalOrigin[1], evalOrigin[2], evalOrigin[3], isInApp)
+  }
+
+  const match = LOCATION.exec(location)
+  if (!match) {
+    return toFrame(fn, location, undefined, undefined, isInApp)
+  }
+  return toFrame(fn, match[1], match[2], match[3], isInApp)
+}
+
+/**
+ * Parse a Firefox/Safari frame: `fn@file:line:col`, `@file:line:col`,
+ * `fn@file line 2 > eval:1:5` or `[native code]`.
+ */
+function parseGeckoFrame(line: string, isInApp: (file: string) => boolean): StackFrame {
+  const match = GECKO_FRAME.exec(line.trim())
+  if (!match) {
+    const fn = line.trim().replace(/@.*$/, '')
+    const file = line.includes('@') ? line.slice(line.indexOf('@') + 1).trim() : undefined
+    return toFrame(fn, file, undefined, undefined, isInApp)
+  }
+
+  const [, fn, file, lineNumber, column] = match
+  const evalOrigin = file ? GECKO_EVAL.exec(file) : null
+  if (evalOrigin) {
+    return toFrame(fn, evalOrigin[1], evalOrigin[2], undefined, isInApp)
+  }
+  return toFrame(fn, file, lineNumber, column, isInApp)
+}
+
+/**
+ * Parse an `error.stack` string into frames, innermost first.
+ * Lines that are not frames (such as V8's leading `Error: message`) are skipped.
+ *
+ * @param stack - The raw stack string
+ * @param isInApp - Classifies a frame's file as application code
+ */
+export function parseStack(stack: string, isInApp: (file: string) => boolean = isInAppFile): StackFrame[] {
+  const frames: StackFrame[] = []
+  // V8 prefixes the message, which may itself contain '@'; only trust `at` lines there
+  const isV8 = /^\s*at /m.test(stack)
+
+  for (const line of stack.split('\n')) {
+    if (frames.length >= MAX_FRAMES) {
+      break
+    }
+    if (isV8) {
+      if (/^\s*at /.test(line)) {
+        frames.push(parseV8Frame(line, isInApp))
+      }
+    } else if (line.includes('@') || line.trim() === '[native code]') {
+      frames.push(parseGeckoFrame(line, isInApp))
+    }
+  }
+
+  return frames
+}
@@ -0,0 +1,295 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createTabCoordinator, type TabCoordinatorOptions } from './tab-coordination'
+import { createPersistentQueue } from './persistent-queue'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+import { createMockExporter } from './test-utils'
+import type { TelemetryEvent } from './types'
+
+/**
+ * In-memory BroadcastChannel connecting every instance with the same name,
+ * standing in for the other tabs of an origin.
+ */
+class FakeBroadcastChannel {
+  static open = new Set<FakeBroadcastChannel>()
+  /** Deliveries held back while set, to let tabs act before hearing each other */
+  static held: Array<() => void> | null = null
+  onmessage: ((event: MessageEvent) => void) | null = null
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.open.add(this)
+  }
+
+  postMessage(message: unknown): void {
+    // Like the real channel, reject what structured cloning cannot copy
+    const data = structuredClone(message)
+    for (const channel of FakeBroadcastChannel.open) {
+      if (channel !== this && channel.name === this.name) {
+        const deliver = () => channel.onmessage?.({ data } as MessageEvent)
+        if (FakeBroadcastChannel.held) {
+          FakeBroadcastChannel.held.push(deliver)
+        } else {
+          queueMicrotask(deliver)
+        }
+      }
+    }
+  }
+
+  close(): void {
+    FakeBroadcastChannel.open.delete(this)
+  }
+}
+
+function createTab(overrides: Partial<TabCoordinatorOptions> = {}) {
+  const options = {
+    channelName: 'tabs',
+    getBreakers: vi.fn(() => ({})),
+    onBreakers: vi.fn(),
+    onEvents: vi.fn(),
+    onLeaderChange: vi.fn(),
+    ...overrides,
+  }
+  return { options, coordinator: createTabCoordinator(options) }
+}
+
+const event: TelemetryEvent = {
+  type: 'event',
+  name: 'clicked',
+  timestamp: 0,
+  sessionId: 's',
+  page: '/',
+}
+
+describe('tab coordination', () => {
+  beforeEach(() => {
+    FakeBroadcastChannel.open.clear()
+    FakeBroadcastChannel.held = null
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel)
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('createTabCoordinator', () => {
+    it('elects the first tab and makes later tabs follow it', async () => {
+      const first = createTab()
+      await vi.advanceTimersByTimeAsync(300)
+      expect(first.coordinator.isLeader()).toBe(true)
+      expect(first.options.onLeaderChange).toHaveBeenCalledWith(true)
+
+      const second = createTab()
+      await vi.advanceTimersByTimeAsync(300)
+      expect(second.coordinator.isLeader()).toBe(false)
+      expect(second.options.onLeaderChange).toHaveBeenCalledWith(false)
+      expect(first.coordinator.isLeader()).toBe(true)
+
+      first.coordinator.stop()
+      second.coordinator.stop()
+    })
+
+    it('forwards batches from followers to the leader', async () => {
+      const leader = createTab()
+      await vi.advanceTimersByTimeAsync(300)
+      const follower = createTab()
+
+      // No leader is known until the hello is answered
+      expect(follower.coordinator.forward([event])).toBe(false)
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(follower.coordinator.forward([event])).toBe(true)
+      expect(leader.coordinator.forward([event])).toBe(false)
+      await vi.advanceTimersByTimeAsync(0)
+      expect(leader.options.onEvents).toHaveBeenCalledWith([event])
+
+      leader.coordinator.stop()
+      follower.coordinator.stop()
+    })
+
+    it('hands over with the circuit-breaker state when the leader resigns', async () => {
+      const breakers = { http: { consecutiveFailures: 2, retryAt: Date.now() + 10_000 } }
+      const leader = createTab({ getBreakers: () => breakers })
+      await vi.advanceTimersByTimeAsync(300)
+      const follower = createTab()
+      await vi.advanceTimersByTimeAsync(2000)
+      expect(follower.options.onBreakers).toHaveBeenCalledWith(breakers)
+
+      leader.coordinator.stop()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(follower.coordinator.isLeader()).toBe(true)
+      expect(follower.options.onLeaderChange).toHaveBeenLastCalledWith(true)
+      expect(follower.options.onBreakers).toHaveBeenLastCalledWith(breakers)
+
+      follower.coordinator.stop()
+    })
+
+    it('takes over when the leader stops sending heartbeats', async () => {
+      const leader = createTab()
+      await vi.advanceTimersByTimeAsync(300)
+      const follower = createTab({ leaderTimeout: 5000 })
+      await vi.advanceTimersByTimeAsync(300)
+
+      // The leading tab disappears without resigning (e.g. it crashed)
+      FakeBroadcastChannel.open.clear()
+      await vi.advanceTimersByTimeAsync(6000)
+
+      expect(follower.coordinator.isLeader()).toBe(true)
+
+      leader.coordinator.stop()
+      follower.coordinator.stop()
+    })
+
+    it('keeps the lower tab ID when two tabs claim at once', async () => {
+      FakeBroadcastChannel.held = []
+      const first = createTab()
+      const second = createTab()
+      await vi.advanceTimersByTimeAsync(300)
+      expect(first.coordinator.isLeader() && second.coordinator.isLeader()).toBe(true)
+
+      const held = FakeBroadcastChannel.held
+      FakeBroadcastChannel.held = null
+      for (const deliver of held) {
+        deliver()
+      }
+      await vi.advanceTimersByTimeAsync(0)
+
+      const [lower, higher] = [first, second].sort((a, b) =>
+        a.coordinator.id < b.coordinator.id ? -1 : 1
+      )
+      expect(lower?.coordinator.isLeader()).toBe(true)
+      expect(higher?.coordinator.isLeader()).toBe(false)
+
+      first.coordinator.stop()
+      second.coordinator.stop()
+    })
+
+    it('falls back to localStorage without BroadcastChannel', async () => {
+      vi.stubGlobal('BroadcastChannel', undefined)
+      const setItem = vi.spyOn(Storage.prototype, 'setItem')
+      const { options, coordinator } = createTab()
+
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: 'tabs',
+          newValue: JSON.stringify({
+            message: { type: 'heartbeat', from: '0', breakers: {} },
+            nonce: 1,
+          }),
+        })
+      )
+      await vi.advanceTimersByTimeAsync(300)
+
+      expect(coordinator.isLeader()).toBe(false)
+      expect(options.onLeaderChange).toHaveBeenCalledWith(false)
+      expect(coordinator.forward([event])).toBe(true)
+      const written = JSON.parse(setItem.mock.calls.at(-1)?.[1] ?? '{}')
+      expect(written.message).toMatchObject({ type: 'events', to: '0', events: [event] })
+      expect(localStorage.getItem('tabs')).toBeNull()
+
+      coordinator.stop()
+    })
+  })
+
+  describe('createObservability', () => {
+    beforeEach(() => {
+      resetSessionCache()
+      sessionStorage.clear()
+    })
+
+    it('sends the events of every tab through the leader', async () => {
+      const leaderExporter = createMockExporter('leader')
+      const followerExporter = createMockExporter('follower')
+      const leader = createObservability({
+        batchSize: 1,
+        exporters: [leaderExporter],
+        coordinateTabs: true,
+      })
+      await vi.advanceTimersByTimeAsync(300)
+      const follower = createObservability({
+        batchSize: 1,
+        exporters: [followerExporter],
+        coordinateTabs: true,
+      })
+      await vi.advanceTimersByTimeAsync(300)
+
+      follower.trackEvent('from_follower')
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(followerExporter.export).not.toHaveBeenCalled()
+      expect(leaderExporter.export).toHaveBeenCalledWith([
+        expect.objectContaining({ name: 'from_follower' }),
+      ])
+
+      // The follower takes over once the leader is cleaned up
+      leader.cleanup()
+      await vi.advanceTimersByTimeAsync(0)
+      follower.trackEvent('after_handover')
+      await vi.advanceTimersByTimeAsync(100)
+      expect(followerExporter.export).toHaveBeenCalledWith([
+        expect.objectContaining({ name: 'after_handover' }),
+      ])
+
+      follower.cleanup()
+    })
+
+    it('forwards events whose properties cannot be cloned', async () => {
+      const leaderExporter = createMockExporter('leader')
+      const leader = createObservability({
+        batchSize: 1,
+        exporters: [leaderExporter],
+        coordinateTabs: true,
+      })
+      await vi.advanceTimersByTimeAsync(300)
+      const follower = createObservability({
+        batchSize: 1,
+        exporters: [createMockExporter('follower')],
+        coordinateTabs: true,
+      })
+      await vi.advanceTimersByTimeAsync(300)
+
+      follower.trackEvent('with_callback', { id: 1, callback: () => 1 })
+      await vi.advanceTimersByTimeAsync(100)
+      follower.trackEvent('after_callback')
+      await vi.advanceTimersByTimeAsync(100)
+
+      const names = leaderExporter.export.mock.calls.flatMap(([events]) =>
+        events.map((forwarded: TelemetryEvent) => forwarded.name)
+      )
+      expect(names).toEqual(['with_callback', 'after_callback'])
+      expect(leaderExporter.export.mock.calls[0]?.[0][0]?.properties).toEqual({ id: 1 })
+      expect(follower.getStats().queued).toBe(0)
+
+      leader.cleanup()
+      follower.cleanup()
+    })
+
+    it('replays stored batches from the leader only', async () => {
+      const storageKey = 'tabs_replay_queue'
+      vi.useRealTimers()
+      await createPersistentQueue({ storageKey })?.add('shared', [event])
+      vi.useFakeTimers()
+
+      // Two tabs restored together, each seeing the batch an earlier page load stored
+      const tabs = [createMockExporter('shared'), createMockExporter('shared')]
+      const instances = tabs.map((exporter) =>
+        createObservability({
+          exporters: [exporter],
+          coordinateTabs: true,
+          persistence: { storageKey },
+        })
+      )
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(tabs.flatMap((exporter) => exporter.export.mock.calls)).toEqual([[[event]]])
+
+      for (const instance of instances) {
+        instance.cleanup()
+      }
+    })
+  })
+})
@@ -0,0 +1,268 @@
+/**
+ * Tab Coordination
+ *
+ * Elects one leader among the open tabs of an origin to batch and send
+ * telemetry for all of them. Followers forward their batches to the leader,
+ * which announces itself with heartbeats carrying its circuit-breaker state,
+ * so a tab taking over after the leader closes keeps backing off instead of
+ * retrying at once. Messages travel over `BroadcastChannel`, or localStorage
+ * `storage` events where it is unavailable.
+ */
+
+import type { TabCoordinationConfig, TelemetryEvent } from './types'
+
+const DEFAULT_HEARTBEAT_INTERVAL = 2000
+const DEFAULT_LEADER_TIMEOUT = 6000
+// A leader answers a hello at once; a tab hearing nothing this long claims leadership
+const HELLO_TIMEOUT = 300
+
+/**
+ * Circuit-breaker state of one exporter, shared so a new leader keeps backing off.
+ */
+export interface BreakerState {
+  consecutiveFailures: number
+  /** When the next attempt is allowed (epoch ms, 0 while closed) */
+  retryAt: number
+}
+
+type TabMessage =
+  | { type: 'hello'; from: string }
+  | { type: 'claim' | 'heartbeat'; from: string; breakers: Record<string, BreakerState> }
+  | { type: 'resign'; from: string; breakers: Record<string, BreakerState> }
+  | { type: 'events'; from: string; to: string; events: TelemetryEvent[] }
+
+interface Messenger {
+  post: (message: TabMessage) => void
+  close: () => void
+}
+
+export interface TabCoordinatorOptions extends TabCoordinationConfig {
+  channelName: string
+  /** Breaker state per exporter name, announced while leading */
+  getBreakers: () => Record<string, BreakerState>
+  /** Breaker state announced by the leader */
+  onBreakers: (breakers: Record<string, BreakerState>) => void
+  /** Batches forwarded by other tabs */
+  onEvents: (events: TelemetryEvent[]) => void
+  /** The known leader changed: this tab took over, stepped down or found one */
+  onLeaderChange: (isLeader: boolean) => void
+}
+
+export interface TabCoordinator {
+  readonly id: string
+  isLeader: () => boolean
+  /**
+   * Hand a batch to the leading tab; false while no other tab is known to lead or
+   * when the batch cannot be serialized
+   */
+  forward: (events: TelemetryEvent[]) => boolean
+  /** Resign leadership and stop listening */
+  stop: () => void
+}
+
+function generateTabId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+}
+
+/**
+ * Messages over BroadcastChannel, or through localStorage writes that other
+ * tabs observe as `storage` events.
+ */
+function createMessenger(name: string, onMessage: (message: TabMessage) => void): Messenger {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name)
+    channel.onmessage = (event: MessageEvent<TabMessage>) => onMessage(event.data)
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    }
+  }
+
+  const handleStorage = (event: StorageEvent): void => {
+    if (event.key !== name || !event.newValue) {
+      return
+    }
+    try {
+      onMessage((JSON.parse(event.newValue) as { message: TabMessage }).message)
+    } catch {
+      // Ignore values written by something else under the same key
+    }
+  }
+  window.addEventListener('storage', handleStorage)
+
+  return {
+    post(message) {
+      try {
+        // The nonce makes repeated messages distinct writes; removing the key right away
+        // keeps storage clean, and other tabs still see the write
+        localStorage.setItem(name, JSON.stringify({ message, nonce: Math.random() }))
+        localStorage.removeItem(name)
+      } catch {
+        // Without storage this tab cannot coordinate and keeps sending on its own
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  }
+}
+
+/**
+ * Join the tabs coordinating on `options.channelName` and take part in
+ * electing a leader. The lowest tab ID wins when several claim at once.
+ */
+export function createTabCoordinator(options: TabCoordinatorOptions): TabCoordinator {
+  const id = generateTabId()
+  const heartbeatInterval = options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL
+  const leaderTimeout = options.leaderTimeout ?? DEFAULT_LEADER_TIMEOUT
+
+  let leaderId: string | null = null
+  let lastHeartbeat = 0
+  let stopped = false
+  let helloTimer: ReturnType<typeof setTimeout> | null = null
+
+  const messenger = createMessenger(options.channelName, handleMessage)
+
+  function setLeader(next: string | null): void {
+    const wasLeader = leaderId === id
+    const changed = next !== leaderId
+    leaderId = next
+    lastHeartbeat = Date.now()
+    if (changed && (next !== null || wasLeader)) {
+      options.onLeaderChange(next === id)
+    }
+  }
+
+  function announce(type: 'claim' | 'heartbeat'): void {
+    messenger.post({ type, from: id, breakers: options.getBreakers() })
+  }
+
+  function claim(): void {
+    setLeader(id)
+    announce('claim')
+  }
+
+  function handleMessage(message: TabMessage): void {
+    if (stopped || message.from === id) {
+      return
+    }
+
+    switch (message.type) {
+      case 'hello':
+        if (leaderId === id) {
+          announce('heartbeat')
+        }
+        break
+
+      case 'claim':
+      case 'heartbeat':
+        if (leaderId === id) {
+          // Two leaders: the lower ID keeps the role, the other reasserts itself
+          if (message.from < id) {
+            setLeader(message.from)
+          } else {
+            announce('heartbeat')
+          }
+        } else if (
+          leaderId === null ||
+          leaderId === message.from ||
+          message.from < leaderId ||
+          Date.now() - lastHeartbeat > leaderTimeout
+        ) {
+          setLeader(message.from)
+        }
+        if (leaderId === message.from) {
+          options.onBreakers(message.breakers)
+        }
+        break
+
+      case 'resign':
+        if (leaderId === message.from) {
+          options.onBreakers(message.breakers)
+          leaderId = null
+          claim()
+        }
+        break
+
+      case 'events':
+        // Forwarded just as leadership moved: queue here, the next flush passes them on
+        if (message.to === id) {
+          options.onEvents(message.events)
+        }
+        break
+    }
+  }
+
+  function tick(): void {
+    if (leaderId === id) {
+      announce('heartbeat')
+    } else if (leaderId !== null && Date.now() - lastHeartbeat > leaderTimeout) {
+      claim()
+    }
+  }
+
+  function join(): void {
+    stopped = false
+    messenger.post({ type: 'hello', from: id })
+    helloTimer = setTimeout(() => {
+      helloTimer = null
+      if (leaderId === null) {
+        claim()
+      }
+    }, HELLO_TIMEOUT)
+  }
+
+  function leave(): void {
+    if (helloTimer) {
+      clearTimeout(helloTimer)
+      helloTimer = null
+    }
+    if (leaderId === id) {
+      messenger.post({ type: 'resign', from: id, breakers: options.getBreakers() })
+    }
+    leaderId = null
+    stopped = true
+  }
+
+  // Hand over when the page goes away, and rejoin if it is restored from the back/forward cache
+  const handlePageHide = (): void => leave()
+  const handlePageShow = (event: PageTransitionEvent): void => {
+    if (event.persisted) {
+      join()
+    }
+  }
+  window.addEventListener('pagehide', handlePageHide)
+  window.addEventListener('pageshow', handlePageShow)
+  const heartbeatTimer = setInterval(tick, heartbeatInterval)
+  join()
+
+  return {
+    id,
+
+    isLeader: () => leaderId === id,
+
+    forward(events) {
+      if (stopped || leaderId === null || leaderId === id) {
+        return false
+      }
+      try {
+        // Structured cloning throws on functions and DOM nodes in properties, which
+        // a JSON round-trip drops the way the exporters' encoding does
+        const payload = JSON.parse(JSON.stringify(events)) as TelemetryEvent[]
+        messenger.post({ type: 'events', from: id, to: leaderId, events: payload })
+      } catch {
+        return false
+      }
+      return true
+    },
+
+    stop() {
+      leave()
+      clearInterval(heartbeatTimer)
+      window.removeEventListener('pagehide', handlePageHide)
+      window.removeEventListener('pageshow', handlePageShow)
+      messenger.close()
+    },
+  }
+}
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { createObservability } from './telemetry'
 import { resetSessionCache } from './session'
+import { createConsoleExporter, ExportError } from './exporters'
+import { createMemoryExporter, createMockExporter } from './test-utils'
+import type { TelemetryEvent } from './types'
 
 describe('telemetry', () => {
   beforeEach(() => {
@@ -117,6 +120,83 @@ describe('telemetry', () => {
 
       obs.cleanup()
     })
+
+    it('rates metrics against configured thresholds and reports budget violations', async () => {
+      const { events: exported, exporter } = createMemoryExporter()
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        thresholds: [
+          { name: 'checkout.submit', good: 500, poor: 2000 },
+          { name: 'api.*', good: 200, poor: 1000 },
+        ],
+      })
+
+      obs.trackMetric('api.users', 150)
+      obs.trackMetric('api.orders', 450)
+      obs.trackMetric('checkout.submit', 2500)
+      obs.trackMetric('api.search', 5000, 'good')
+      obs.trackMetric('unrated', 99999)
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      const ratings = exported
+        .filter((event) => event.type === 'metric')
+        .map((event) => [event.name, event.rating])
+      expect(ratings).toEqual([
+        ['api.users', 'good'],
+        ['api.orders', 'needs-improvement'],
+        ['checkout.submit', 'poor'],
+        ['api.search', 'good'],
+        ['unrated', undefined],
+      ])
+      expect(
+        exported.filter((event) => event.name === 'budget_violation').map((e) => e.properties)
+      ).toEqual([
+        { metric: 'api.orders', value: 450, rating: 'needs-improvement', threshold: 200 },
+        { metric: 'checkout.submit', value: 2500, rating: 'poor', threshold: 2000 },
+      ])
+      expect(obs.rateMetric('api.users', 1200)).toBe('poor')
+      expect(obs.rateMetric('unrated', 1)).toBeUndefined()
+
+      obs.cleanup()
+    })
+
+    it('reports a budget violation once per crossing of the good threshold', async () => {
+      const { events: exported, exporter } = createMemoryExporter()
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        thresholds: [{ name: 'api.*', good: 200, poor: 1000 }],
+      })
+
+      for (const value of [500, 1500, 600, 100, 700]) {
+        obs.trackMetric('api.users', value)
+      }
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      const violations = exported.filter((event) => event.name === 'budget_violation')
+      expect(violations.map((event) => event.properties?.value)).toEqual([500, 700])
+      obs.cleanup()
+    })
+
+    it('skips budget violation events when disabled', async () => {
+      const { events: exported, exporter } = createMemoryExporter()
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        thresholds: [{ name: 'api.*', good: 200, poor: 1000 }],
+        reportBudgetViolations: false,
+      })
+
+      obs.trackMetric('api.users', 5000)
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      expect(exported.map((event) => event.name)).toEqual(['api.users'])
+      obs.cleanup()
+    })
   })
 
   describe('trackError', () => {
@@ -133,6 +213,25 @@ describe('telemetry', () => {
       expect(body.events[0].type).toBe('error')
       expect(body.events[0].properties.message).toBe('Test error')
       expect(body.events[0].properties.stack).toBeDefined()
+      expect(body.events[0].properties.errorType).toBe('Error')
+      expect(body.events[0].properties).not.toHaveProperty('error')
+
+      obs.cleanup()
+    })
+
+    it('attaches parsed stack frames', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response())
+
+      const obs = createObservability({ batchSize: 1 })
+      obs.trackError('test_error', new Error('Test error'))
+
+      await vi.runAllTimersAsync()
+
+      const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string)
+      const [frame] = body.events[0].properties.frames
+      expect(frame.line).toBeTypeOf('number')
+      expect(frame.column).toBeTypeOf('number')
+      expect(frame.inApp).toBeTypeOf('boolean')
 
       obs.cleanup()
     })
@@ -201,6 +300,21 @@ describe('telemetry', () => {
       expect(fetchSpy).toHaveBeenCalled()
       obs.cleanup()
     })
+
+    it('flushes once queued events reach maxBatchBytes', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response())
+
+      const obs = createObservability({ batchSize: 100, flushInterval: 60000, maxBatchBytes: 2000 })
+      obs.trackEvent('small')
+      await vi.advanceTimersByTimeAsync(100)
+      expect(fetchSpy).not.toHaveBeenCalled()
+
+      obs.trackEvent('large', { payload: 'x'.repeat(2000) })
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(fetchSpy).toHaveBeenCalled()
+      obs.cleanup()
+    })
   })
 
   describe('cleanup', () => {
@@ -221,6 +335,99 @@ describe('telemetry', () => {
     })
   })
 
+  describe('global error capture', () => {
+    it('captures uncaught errors', async () => {
+      const { events, exporter } = createMemoryExporter()
+      const obs = createObservability({ batchSize: 1, exporters: [exporter], captureGlobalErrors: true })
+
+      const error = new Error('Uncaught boom')
+      window.dispatchEvent(
+        new ErrorEvent('error', { error, message: error.message, filename: 'app.js', lineno: 10, colno: 5 })
+      )
+      await vi.runAllTimersAsync()
+
+      expect(events[0]?.name).toBe('uncaught_error')
+      expect(events[0]?.properties).toMatchObject({
+        message: 'Uncaught boom',
+        source: 'window.onerror',
+        filename: 'app.js',
+        lineno: 10,
+        colno: 5,
+      })
+
+      obs.cleanup()
+    })
+
+    it('flags opaque cross-origin script errors', async () => {
+      const { events, exporter } = createMemoryExporter()
+      const obs = createObservability({ batchSize: 1, exporters: [exporter], captureGlobalErrors: true })
+
+      window.dispatchEvent(new ErrorEvent('error', { message: 'Script error.' }))
+      await vi.runAllTimersAsync()
+
+      expect(events[0]?.properties).toMatchObject({ message: 'Script error.', crossOrigin: true })
+
+      obs.cleanup()
+    })
+
+    it('captures unhandled promise rejections', async () => {
+      const { events, exporter } = createMemoryExporter()
+      const obs = createObservability({ batchSize: 1, exporters: [exporter], captureGlobalErrors: true })
+
+      window.dispatchEvent(
+        Object.assign(new Event('unhandledrejection'), { reason: new Error('Rejected') })
+      )
+      await vi.runAllTimersAsync()
+
+      expect(events[0]?.name).toBe('unhandled_rejection')
+      expect(events[0]?.properties).toMatchObject({ message: 'Rejected', source: 'unhandledrejection' })
+
+      obs.cleanup()
+    })
+
+    it('captures resource load failures', async () => {
+      const { events, exporter } = createMemoryExporter()
+      const obs = createObservability({ batchSize: 1, exporters: [exporter], captureGlobalErrors: true })
+
+      const script = document.createElement('script')
+      script.src = 'https://cdn.example.com/missing.js'
+      document.body.appendChild(script)
+      script.dispatchEvent(new Event('error'))
+      await vi.runAllTimersAsync()
+
+      expect(events[0]?.name).toBe('resource_error')
+      expect(events[0]?.properties).toMatchObject({
+        resourceType: 'script',
+        resourceUrl: 'https://cdn.example.com/missing.js',
+      })
+
+      script.remove()
+      obs.cleanup()
+    })
+
+    it('stops capturing after cleanup', async () => {
+      const { events, exporter } = createMemoryExporter()
+      const obs = createObservability({ batchSize: 1, exporters: [exporter], captureGlobalErrors: true })
+      obs.cleanup()
+
+      window.dispatchEvent(new ErrorEvent('error', { message: 'late' }))
+      await vi.runAllTimersAsync()
+
+      expect(events).toHaveLength(0)
+    })
+
+    it('is off by default', async () => {
+      const { events, exporter } = createMemoryExporter()
+      const obs = createObservability({ batchSize: 1, exporters: [exporter] })
+
+      window.dispatchEvent(new ErrorEvent('error', { message: 'ignored' }))
+      await vi.runAllTimersAsync()
+
+      expect(events).toHaveLength(0)
+      obs.cleanup()
+    })
+  })
+
   describe('error handling', () => {
     it('logs warning on fetch failure', async () => {
       const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
@@ -301,4 +508,431 @@ describe('telemetry', () => {
       obs.cleanup()
     })
   })
+
+  describe('event processors', () => {
+    it('runs processors in order before beforeSend', async () => {
+      const { events, exporter } = createMemoryExporter()
+      const calls: string[] = []
+
+      const obs = createObservability({
+        batchSize: 1,
+        exporters: [exporter],
+        eventProcessors: [
+          (event) => {
+            calls.push('first')
+            return { ...event, properties: { ...event.properties, release: '1.2.3' } }
+          },
+          (event) => {
+            calls.push('second')
+            return event
+          },
+        ],
+        beforeSend: (event) => {
+          calls.push('beforeSend')
+          return event.properties?.release === '1.2.3' ? event : null
+        },
+      })
+      obs.trackEvent('checkout')
+
+      await vi.runAllTimersAsync()
+
+      expect(calls).toEqual(['first', 'second', 'beforeSend'])
+      expect(events[0]?.properties?.release).toBe('1.2.3')
+      obs.cleanup()
+    })
+
+    it('drops events when a processor returns null', async () => {
+      const { events, exporter } = createMemoryExporter()
+      const later = vi.fn((event: TelemetryEvent) => event)
+
+      const obs = createObservability({
+        batchSize: 1,
+        exporters: [exporter],
+        eventProcessors: [(event) => (event.name === 'noise' ? null : event), later],
+      })
+      obs.trackEvent('noise')
+      obs.trackEvent('signal')
+
+      await vi.runAllTimersAsync()
+
+      expect(events.map((e) => e.name)).toEqual(['signal'])
+      expect(later).toHaveBeenCalledTimes(1)
+      obs.cleanup()
+    })
+
+    it('drops and counts events whose processor throws', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const { events, exporter } = createMemoryExporter()
+
+      const obs = createObservability({
+        batchSize: 1,
+        exporters: [exporter],
+        scrub: true,
+        beforeSend: (event) => {
+          if (event.name === 'buggy') {
+            throw new Error('buggy')
+          }
+          return event
+        },
+      })
+      obs.trackEvent('buggy', { email: 'jane@example.com' })
+      obs.trackEvent('kept')
+
+      await vi.runAllTimersAsync()
+
+      expect(events.map((e) => e.name)).toEqual(['kept'])
+      expect(obs.getStats().dropped.processor_failed).toBe(1)
+      expect(warn).toHaveBeenCalledWith(
+        '[Observability] Event processor failed, dropping event:',
+        expect.any(Error)
+      )
+      obs.cleanup()
+    })
+
+    it('scrubs after beforeSend when enabled', async () => {
+      const { events, exporter } = createMemoryExporter()
+
+      const obs = createObservability({
+        batchSize: 1,
+        exporters: [exporter],
+        pageProvider: () => '/reset?token=abc123',
+        beforeSend: (event) => ({
+          ...event,
+          properties: { ...event.properties, contact: 'jane@example.com' },
+        }),
+        scrub: true,
+      })
+      obs.trackError('signup_failed', new Error('Invalid address jane@example.com'))
+
+      await vi.runAllTimersAsync()
+
+      expect(events[0]?.page).toBe('/reset?token=[REDACTED]')
+      expect(events[0]?.properties?.contact).toBe('[REDACTED]')
+      expect(events[0]?.properties?.message).toBe('Invalid address [REDACTED]')
+      expect(events[0]?.properties?.stack).not.toContain('jane@example.com')
+      obs.cleanup()
+    })
+  })
+
+  describe('sessions and users', () => {
+    beforeEach(() => {
+      localStorage.clear()
+    })
+
+    it('emits session_start and session_end when lifecycle events are enabled', async () => {
+      const { events, exporter } = createMemoryExporter()
+      const obs = createObservability({
+        batchSize: 100,
+        exporters: [exporter],
+        session: { inactivityTimeout: 60_000, lifecycleEvents: true },
+      })
+
+      obs.trackEvent('first')
+      const firstSession = obs.getSessionId()
+      vi.advanceTimersByTime(61_000)
+      obs.trackEvent('second')
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      expect(events.map((e) => e.name)).toEqual([
+        'session_start',
+        'first',
+        'session_end',
+        'session_start',
+        'second',
+      ])
+      expect(events[2]).toMatchObject({ sessionId: firstSession, properties: { reason: 'inactivity' } })
+      expect(events[4]?.sessionId).not.toBe(firstSession)
+      obs.cleanup()
+    })
+
+    it('does not emit lifecycle events by default', async () => {
+      const { events, exporter } = createMemoryExporter()
+      const obs = createObservability({ batchSize: 1, exporters: [exporter] })
+
+      obs.trackEvent('only')
+      await vi.runAllTimersAsync()
+
+      expect(events.map((e) => e.name)).toEqual(['only'])
+      obs.cleanup()
+    })
+
+    it('stamps events with the identified user until reset', async () => {
+      const { events, exporter } = createMemoryExporter()
+      const obs = createObservability({ batchSize: 100, exporters: [exporter] })
+
+      obs.trackEvent('anonymous')
+      obs.identify('user-42', { plan: 'pro' })
+      obs.trackEvent('identified')
+      const sessionBeforeReset = obs.getSessionId()
+      obs.resetUser()
+      obs.trackEvent('logged_out')
+      obs.flush()
+      await vi.runAllTimersAsync()
+
+      expect(events.map((e) => e.user)).toEqual([
+        undefined,
+        { id: 'user-42', traits: { plan: 'pro' } },
+        undefined,
+      ])
+      expect(events[2]?.sessionId).not.toBe(sessionBeforeReset)
+      obs.cleanup()
+    })
+
+    it('restores the identified user after a reload', async () => {
+      const first = createObservability({ batchSize: 100 })
+      first.identify('user-42')
+      first.cleanup()
+
+      const { events, exporter } = createMemoryExporter()
+      const second = createObservability({ batchSize: 1, exporters: [exporter] })
+      second.trackEvent('after_reload')
+      second.flush()
+      await vi.runAllTimersAsync()
+
+      expect(events[0]?.user).toEqual({ id: 'user-42' })
+      second.cleanup()
+    })
+  })
+
+  describe('exporters', () => {
+    it('fans the same batch out to every exporter', async () => {
+      const first = createMockExporter('first')
+      const second = createMockExporter('second')
+
+      const obs = createObservability({ batchSize: 1, exporters: [first, second] })
+      obs.trackEvent('fan_out')
+
+      await vi.runAllTimersAsync()
+
+      expect(first.export).toHaveBeenCalledTimes(1)
+      expect(second.export).toHaveBeenCalledTimes(1)
+      expect(first.export.mock.calls[0]?.[0][0].name).toBe('fan_out')
+      expect(second.export.mock.calls[0]?.[0]).toEqual(first.export.mock.calls[0]?.[0])
+
+      obs.cleanup()
+    })
+
+    it('keeps circuit-breaker state independent per exporter', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const healthy = createMockExporter('healthy')
+      const failing = createMockExporter('failing')
+      failing.export.mockRejectedValue(new Error('down'))
+
+      const obs = createObservability({ batchSize: 1, exporters: [healthy, failing] })
+
+      obs.trackEvent('first')
+      await vi.advanceTimersByTimeAsync(100)
+      expect(failing.export).toHaveBeenCalledTimes(1)
+
+      // The failing exporter is backing off; the healthy one keeps delivering
+      obs.trackEvent('second')
+      await vi.advanceTimersByTimeAsync(100)
+      expect(healthy.export).toHaveBeenCalledTimes(2)
+      expect(failing.export).toHaveBeenCalledTimes(1)
+
+      // After the 5s backoff the failing exporter retries both events at once
+      failing.export.mockResolvedValue(undefined)
+      await vi.advanceTimersByTimeAsync(5000)
+      expect(failing.export).toHaveBeenCalledTimes(2)
+      expect(failing.export.mock.calls[1]?.[0].map((e: { name: string }) => e.name)).toEqual([
+        'first',
+        'second',
+      ])
+
+      obs.cleanup()
+    })
+
+    it('uses exportOnUnload on page unload', () => {
+      const exporter = createMockExporter('unload')
+
+      const obs = createObservability({ batchSize: 100, exporters: [exporter] })
+      obs.trackEvent('before_unload')
+      window.dispatchEvent(new Event('beforeunload'))
+
+      expect(exporter.exportOnUnload).toHaveBeenCalledWith(
+        [expect.objectContaining({ name: 'before_unload' })],
+        expect.any(Function)
+      )
+      expect(exporter.export).not.toHaveBeenCalled()
+
+      obs.cleanup()
+    })
+
+    it('sends queued events, then shuts exporters down on cleanup', async () => {
+      const exporter = createMockExporter('shutdown')
+
+      const obs = createObservability({ exporters: [exporter] })
+      obs.trackEvent('last')
+      obs.cleanup()
+      await vi.runAllTimersAsync()
+
+      expect(exporter.export).toHaveBeenCalledWith([expect.objectContaining({ name: 'last' })])
+      expect(exporter.shutdown).toHaveBeenCalled()
+      expect(exporter.shutdown.mock.invocationCallOrder[0]).toBeGreaterThan(
+        exporter.export.mock.invocationCallOrder[0] ?? Number.POSITIVE_INFINITY
+      )
+    })
+
+    it('logs events with the console exporter', async () => {
+      const logger = { log: vi.fn() }
+
+      const obs = createObservability({
+        batchSize: 1,
+        exporters: [createConsoleExporter({ logger })],
+      })
+      obs.trackEvent('debug_me')
+
+      await vi.runAllTimersAsync()
+
+      expect(logger.log).toHaveBeenCalledWith(
+        '[Observability] Export',
+        'event',
+        'debug_me',
+        expect.objectContaining({ name: 'debug_me' })
+      )
+
+      obs.cleanup()
+    })
+  })
+
+  describe('delivery stats', () => {
+    it('reports sent events, failures and the circuit breaker', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const exporter = createMockExporter('flaky')
+      exporter.export.mockRejectedValueOnce(new Error('down')).mockResolvedValue(undefined)
+      const onDeliverySuccess = vi.fn()
+      const onDeliveryFailure = vi.fn()
+
+      const obs = createObservability({
+        batchSize: 2,
+        exporters: [exporter],
+        onDeliverySuccess,
+        onDeliveryFailure,
+      })
+      obs.trackEvent('first')
+      obs.trackEvent('second')
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(onDeliveryFailure).toHaveBeenCalledWith({
+        exporter: 'flaky',
+        events: 2,
+        error: expect.any(Error),
+        attempt: 1,
+        retryIn: 5000,
+      })
+      expect(obs.getStats()).toMatchObject({
+        queued: 2,
+        sent: 0,
+        failedAttempts: 1,
+        circuit: 'open',
+        lastError: { exporter: 'flaky', message: 'down' },
+        exporters: [{ name: 'flaky', pending: 2, consecutiveFailures: 1, circuit: 'open' }],
+      })
+
+      // The retry after the backoff succeeds and closes the breaker
+      await vi.advanceTimersByTimeAsync(5000)
+      expect(onDeliverySuccess).toHaveBeenCalledWith(
+        expect.objectContaining({ exporter: 'flaky', events: 2 })
+      )
+      expect(obs.getStats()).toMatchObject({
+        queued: 0,
+        sent: 2,
+        failedAttempts: 1,
+        circuit: 'closed',
+        exporters: [{ consecutiveFailures: 0, retryAt: 0 }],
+      })
+
+      obs.cleanup()
+    })
+
+    it('counts a partial delivery as sent and retries only the rest', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const exporter = createMockExporter('partial')
+      exporter.export.mockImplementationOnce(async (events: TelemetryEvent[]) => {
+        throw new ExportError('Telemetry request failed: 503', events.slice(1))
+      })
+
+      const obs = createObservability({ batchSize: 2, exporters: [exporter] })
+      obs.trackEvent('first')
+      obs.trackEvent('second')
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(obs.getStats()).toMatchObject({ queued: 1, sent: 1, failedAttempts: 1 })
+
+      await vi.advanceTimersByTimeAsync(5000)
+      expect(exporter.export).toHaveBeenLastCalledWith([
+        expect.objectContaining({ name: 'second' }),
+      ])
+      expect(obs.getStats()).toMatchObject({ queued: 0, sent: 2 })
+
+      obs.cleanup()
+    })
+
+    it('counts events dropped from a full retry queue and rejected beacons', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const exporter = { ...createMockExporter('down'), exportOnUnload: vi.fn(() => false) }
+      exporter.export.mockRejectedValue(new Error('down'))
+
+      const obs = createObservability({ batchSize: 150, exporters: [exporter] })
+      for (let i = 0; i < 150; i++) {
+        obs.trackEvent('burst')
+      }
+      await vi.advanceTimersByTimeAsync(100)
+      expect(obs.getStats().dropped.queue_overflow).toBe(50)
+
+      window.dispatchEvent(new Event('beforeunload'))
+      expect(obs.getStats().dropped).toMatchObject({ queue_overflow: 50, beacon_rejected: 100 })
+
+      obs.cleanup()
+    })
+
+    it('counts only the unload events the exporter reports as lost', async () => {
+      let reportLost: () => void = () => {}
+      const exportOnUnload = (events: TelemetryEvent[], onLost: (lost: TelemetryEvent[]) => void) => {
+        // The fallback for the last events fails after the page starts unloading
+        reportLost = () => onLost(events.slice(2))
+        return undefined
+      }
+      const exporter = { ...createMockExporter('beacon'), exportOnUnload }
+
+      const obs = createObservability({ batchSize: 100, exporters: [exporter] })
+      for (let i = 0; i < 5; i++) {
+        obs.trackEvent('page_view')
+      }
+      window.dispatchEvent(new Event('beforeunload'))
+      expect(obs.getStats().dropped.beacon_rejected).toBe(0)
+
+      reportLost()
+      expect(obs.getStats().dropped.beacon_rejected).toBe(3)
+
+      obs.cleanup()
+    })
+
+    it('keeps delivering when a hook throws', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const exporter = createMockExporter('hooked')
+
+      const obs = createObservability({
+        batchSize: 1,
+        exporters: [exporter],
+        onDeliverySuccess: () => {
+          throw new Error('hook failed')
+        },
+      })
+      obs.trackEvent('first')
+      await vi.advanceTimersByTimeAsync(100)
+      obs.trackEvent('second')
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(exporter.export).toHaveBeenCalledTimes(2)
+      expect(obs.getStats().sent).toBe(2)
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[Observability] Delivery hook failed:',
+        expect.any(Error)
+      )
+
+      obs.cleanup()
+    })
+  })
 })
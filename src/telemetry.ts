@@ -6,12 +6,56 @@
  * Architecture:
  * 1. Events collected into in-memory queue (non-blocking)
  * 2. Background batching via requestIdleCallback
- * 3. Delivery via fetch or Beacon API on page unload
- * 4. Backend: Hanabi BFF -> Prometheus/Loki/Tempo -> Grafana
+ * 3. Delivery through one or more exporters (fetch, or Beacon API on page unload),
+ *    each with its own retry queue and circuit breaker
+ * 4. Backend: Hanabi BFF -> Prometheus/Loki/Tempo -> Grafana,
+ *    or OTLP/HTTP JSON straight to an OpenTelemetry Collector
  */
 
-import type { TelemetryEvent, ObservabilityConfig, ObservabilityInstance, MetricRating } from './types'
-import { getSessionId, getCurrentPage, isDevelopment, resetSessionCache } from './session'
+import type {
+  TelemetryEvent,
+  ObservabilityConfig,
+  ObservabilityInstance,
+  MetricRating,
+  Exporter,
+  EventProcessor,
+  UserIdentity,
+  ConsentCategory,
+  DeliveryError,
+  DropReason,
+  TelemetryStats,
+} from './types'
+import {
+  createSessionManager,
+  getCurrentPage,
+  isDevelopment,
+  resetSessionCache,
+} from './session'
+import { createHttpExporter, createOtlpExporter } from './exporters'
+import { createPersistentQueue } from './persistent-queue'
+import { createDeliveryChannel } from './delivery'
+import { createTracer } from './tracing'
+import { installHttpInstrumentation } from './http-instrumentation'
+import { createRouteTracker, installRouteTracking } from './route-tracking'
+import { installResourceTiming } from './resource-timing'
+import { createErrorGroups, fingerprintError } from './error-grouping'
+import { createBreadcrumbTrail, installBreadcrumbCapture } from './breadcrumbs'
+import { installAutocapture } from './autocapture'
+import { installInternalMetrics } from './internal-metrics'
+import { createTabCoordinator, type TabCoordinator } from './tab-coordination'
+import { installGlobalErrorHandlers } from './global-errors'
+import { parseStack } from './stack-trace'
+import { createMeter } from './metrics'
+import { createSampler } from './sampling'
+import { createThresholdRater } from './thresholds'
+import { createScrubber } from './scrubber'
+import { categoryOf, createConsentManager } from './consent'
+import { byteLength, DEFAULT_MAX_BATCH_BYTES } from './transport'
+
+const DEFAULT_MAX_CONSENT_BUFFER = 100
+
+/** An event as passed to `collect`, before session and page context are added */
+type CollectedEvent = Omit<TelemetryEvent, 'timestamp' | 'sessionId' | 'page'>
 
 const DEFAULT_CONFIG: ObservabilityConfig = {
   debug: false,
@@ -22,6 +66,27 @@ const DEFAULT_CONFIG: ObservabilityConfig = {
   sessionKey: 'pleme_session_id',
 }
 
+/**
+ * Exporters used when none are configured: OTLP when a collector is
+ * configured, otherwise the bespoke format on `telemetryEndpoint`.
+ */
+function getDefaultExporters(config: ObservabilityConfig): Exporter[] {
+  const transport = { maxBatchBytes: config.maxBatchBytes, compression: config.compression }
+  if (config.otlp) {
+    return [createOtlpExporter({ ...transport, ...config.otlp })]
+  }
+  return [createHttpExporter({ ...transport, endpoint: config.telemetryEndpoint })]
+}
+
+function loadUser(key: string): UserIdentity | null {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null
+    return raw ? (JSON.parse(raw) as UserIdentity) : null
+  } catch {
+    return null
+  }
+}
+
 /**
  * Create an observability instance with the given configuration.
  * This is the main factory function for the observability system.
@@ -35,49 +100,399 @@ export function createObservability(
   const isDebug = config.debug || (config.isDevelopmentProvider?.() ?? isDevelopment())
 
   let eventQueue: TelemetryEvent[] = []
+  let queuedBytes = 0
+  const maxBatchBytes = config.maxBatchBytes ?? DEFAULT_MAX_BATCH_BYTES
   let flushTimer: ReturnType<typeof setTimeout> | null = null
   let isInitialized = false
   let boundHandleVisibilityChange: (() => void) | null = null
   let boundFlushWithBeacon: (() => void) | null = null
+  let uninstallHttpInstrumentation: (() => void) | null = null
+  let uninstallGlobalErrorHandlers: (() => void) | null = null
+  let uninstallRouteTracking: (() => void) | null = null
+  let uninstallResourceTiming: (() => void) | null = null
+  let uninstallBreadcrumbCapture: (() => void) | null = null
+  let uninstallAutocapture: (() => void) | null = null
+  let uninstallInternalMetrics: (() => void) | null = null
+  let coordinator: TabCoordinator | null = null
+
+  // Events lost rather than delivered, reported by getStats() and internal metrics
+  const dropped: Record<DropReason, number> = {
+    queue_overflow: 0,
+    beacon_rejected: 0,
+    unload_failed: 0,
+    consent_buffer_overflow: 0,
+    rate_limited: 0,
+    processor_failed: 0,
+    storage_evicted: 0,
+  }
 
-  // Circuit breaker state
-  let consecutiveFailures = 0
-  let backoffUntil = 0
-  let lastErrorLogged = 0
-  const MAX_BACKOFF_MS = 5 * 60 * 1000 // 5 minutes
-  const ERROR_LOG_INTERVAL_MS = 60_000 // suppress duplicate logs for 60s
+  function recordDrop(reason: DropReason, count: number): void {
+    dropped[reason] += count
+  }
 
-  // Session and page providers
-  const getSession = config.sessionIdProvider ?? (() => getSessionId(config.sessionKey))
+  // One delivery channel (retry queue + circuit breaker) per exporter
+  const exporters = config.exporters ?? getDefaultExporters(config)
+  const store = config.persistence
+    ? createPersistentQueue(config.persistence === true ? {} : config.persistence, (count) =>
+        recordDrop('storage_evicted', count)
+      )
+    : undefined
+  const channels = exporters.map((exporter) =>
+    createDeliveryChannel(exporter, {
+      debug: isDebug,
+      store,
+      onSuccess: config.onDeliverySuccess,
+      onFailure: config.onDeliveryFailure,
+      onDrop: recordDrop,
+      canReplay: () => !coordinator || coordinator.isLeader(),
+    })
+  )
+
+  // Sessions shared across tabs, rotated after inactivity or at the maximum duration
+  const trackLifecycle = config.session?.lifecycleEvents ?? false
+  const sessions = createSessionManager({
+    ...config.session,
+    storageKey: config.sessionKey,
+    onStart: trackLifecycle ? () => collect({ type: 'event', name: 'session_start' }) : undefined,
+    onEnd: trackLifecycle
+      ? (session, reason) =>
+          collect(
+            {
+              type: 'event',
+              name: 'session_end',
+              properties: { reason, duration: session.lastActivity - session.startedAt },
+            },
+            session.id
+          )
+      : undefined,
+  })
   const getPage = config.pageProvider ?? getCurrentPage
 
+  // Route changes share one tracker so manual and automatic reports see the same previous route
+  const routeConfig = typeof config.trackRoutes === 'object' ? config.trackRoutes : {}
+  const routes = createRouteTracker(
+    (path, properties) =>
+      collect({ type: 'event', name: 'page_view', properties: { path, ...properties } }),
+    routeConfig.routeTemplate
+  )
+
+  // Recent activity attached to errors, recorded only with analytics consent
+  const breadcrumbs = config.breadcrumbs
+    ? createBreadcrumbTrail(
+        config.breadcrumbs === true ? {} : config.breadcrumbs,
+        () => consent.status('analytics') === 'granted'
+      )
+    : undefined
+
+  // Repeated errors collapse into one event with a count, within rate limits
+  const errorGroups = config.errorGrouping
+    ? createErrorGroups<CollectedEvent>(
+        (event, count) => collect({ ...event, properties: { ...event.properties, count } }),
+        config.errorGrouping === true ? {} : config.errorGrouping,
+        (count) => recordDrop('rate_limited', count)
+      )
+    : undefined
+
+  // Identified user, persisted once analytics consent allows so it survives reloads
+  const userKey = `${config.sessionKey}_user`
+  let user = loadUser(userKey)
+
+  // Per-category consent; events wait in a buffer while their category is pending
+  const consent = createConsentManager(config.consent)
+  let consentBuffer: TelemetryEvent[] = []
+
+  // Head-based sampling of collected events (aggregated metrics are never sampled)
+  const sample = config.sampling ? createSampler(config.sampling) : undefined
+  const rateThreshold = createThresholdRater(config.thresholds ?? [])
+  const reportBudgetViolations = config.reportBudgetViolations ?? true
+  // Metrics whose last rated observation was over budget, so each crossing is reported once
+  const overBudget = new Set<string>()
+
+  // User processors, then beforeSend, then the scrubber so nothing unscrubbed is queued
+  const processors: EventProcessor[] = [
+    ...(config.eventProcessors ?? []),
+    ...(config.beforeSend ? [config.beforeSend] : []),
+    ...(config.scrub ? [createScrubber(config.scrub === true ? {} : config.scrub)] : []),
+  ]
+
+  // Aggregating instruments; their series are drained into the queue on flush
+  const meter = createMeter(scheduleIntervalFlush)
+
   /**
-   * Collect a telemetry event into the queue.
-   * This is completely non-blocking and returns immediately.
+   * Current session ID; `extend` records activity so the session stays alive.
+   */
+  function getSession(extend = false): string {
+    if (config.sessionIdProvider) {
+      return config.sessionIdProvider()
+    }
+    return extend ? sessions.touch() : sessions.getSessionId()
+  }
+
+  /**
+   * Stamp an event with timestamp, session, page and the identified user.
    */
-  function collect(event: Omit<TelemetryEvent, 'timestamp' | 'sessionId' | 'page'>): void {
-    const fullEvent: TelemetryEvent = {
+  function enrich(
+    event: Omit<TelemetryEvent, 'timestamp' | 'sessionId' | 'page'>,
+    sessionId: string = getSession()
+  ): TelemetryEvent {
+    return {
       ...event,
+      ...(user ? { user } : {}),
       timestamp: Date.now(),
-      sessionId: getSession(),
+      sessionId,
       page: getPage(),
     }
+  }
+
+  /**
+   * Run an event through the processor chain; null means it was dropped.
+   * An event whose processor throws is dropped and counted: skipping the processor could
+   * let it through unscrubbed, and throwing would break the app.
+   */
+  function applyProcessors(event: TelemetryEvent): TelemetryEvent | null {
+    let current = event
+    for (const processor of processors) {
+      try {
+        const result = processor(current)
+        if (!result) {
+          return null
+        }
+        current = result
+      } catch (error) {
+        console.warn('[Observability] Event processor failed, dropping event:', error)
+        recordDrop('processor_failed', 1)
+        return null
+      }
+    }
+    return current
+  }
+
+  /**
+   * Collect a telemetry event into the queue, counting it as session activity.
+   * This is completely non-blocking and returns immediately.
+   */
+  function collect(event: CollectedEvent, sessionId?: string): void {
+    // Consent is checked first so denied events never touch the session
+    const status = consent.status(categoryOf(event.type))
+    if (status === 'denied' || (status === 'pending' && config.consent?.pending === 'discard')) {
+      return
+    }
+
+    if (event.type === 'event') {
+      recordEventBreadcrumb(event.name, event.properties)
+    }
+
+    // Pending events wait without a session so nothing is stored before consent;
+    // they are stamped, sampled and processed once granted
+    if (status === 'pending') {
+      if (consentBuffer.length < (config.consent?.maxBuffered ?? DEFAULT_MAX_CONSENT_BUFFER)) {
+        consentBuffer.push(enrich(event, sessionId ?? ''))
+      } else {
+        recordDrop('consent_buffer_overflow', 1)
+      }
+      return
+    }
+    admit(enrich(event, sessionId ?? getSession(true)))
+  }
+
+  /**
+   * Sample and process an enriched event, then queue what is kept.
+   */
+  function admit(event: TelemetryEvent): void {
+    const sampled = sample ? sample(event) : event
+    const processed = sampled && applyProcessors(sampled)
+    if (processed) {
+      enqueue(processed)
+    }
+  }
 
-    eventQueue.push(fullEvent)
+  /**
+   * Record a collected event in the trail; page views count as navigation.
+   */
+  function recordEventBreadcrumb(name: string, properties?: Record<string, unknown>): void {
+    if (!breadcrumbs) {
+      return
+    }
+    if (name === 'page_view') {
+      breadcrumbs.add({
+        category: 'navigation',
+        message: String(properties?.path),
+        data: properties,
+      })
+    } else {
+      breadcrumbs.add({ category: 'event', message: name, data: properties })
+    }
+  }
+
+  /**
+   * Serialized size of an event; unserializable events count as empty here
+   * and are left for the exporter to reject.
+   */
+  function estimateBytes(event: TelemetryEvent): number {
+    try {
+      return byteLength(JSON.stringify(event))
+    } catch {
+      return 0
+    }
+  }
+
+  /**
+   * Add a processed event to the queue and schedule delivery.
+   */
+  function enqueue(event: TelemetryEvent): void {
+    eventQueue.push(event)
+    queuedBytes += estimateBytes(event)
 
     if (isDebug) {
       console.log('[Observability]', event.type, event.name, event.properties ?? event.value ?? '')
     }
 
     // Check if we should flush
-    if (eventQueue.length >= config.batchSize) {
+    if (eventQueue.length >= config.batchSize || queuedBytes >= maxBatchBytes) {
       scheduleFlush()
-    } else if (!flushTimer) {
-      // Schedule a flush after interval
+    } else {
+      scheduleIntervalFlush()
+    }
+  }
+
+  /**
+   * Move buffered events whose category is now granted into the queue, stamped
+   * with the session, and drop those that were denied.
+   */
+  function releaseConsentBuffer(): void {
+    const buffered = consentBuffer
+    consentBuffer = []
+    for (const event of buffered) {
+      const status = consent.status(categoryOf(event.type))
+      if (status === 'granted') {
+        admit(event.sessionId ? event : { ...event, sessionId: getSession(true) })
+      } else if (status === 'pending') {
+        consentBuffer.push(event)
+      }
+    }
+  }
+
+  /**
+   * Remove everything collected under revoked categories, along with the
+   * stored session, user and persisted batches.
+   */
+  function purge(categories: ConsentCategory[]): void {
+    const isRevoked = (event: TelemetryEvent) => categories.includes(categoryOf(event.type))
+
+    eventQueue = eventQueue.filter((event) => !isRevoked(event))
+    queuedBytes = eventQueue.reduce((sum, event) => sum + estimateBytes(event), 0)
+    for (const channel of channels) {
+      channel.discard(isRevoked)
+    }
+    if (categories.includes('performance')) {
+      meter.reset()
+    }
+    if (categories.includes('analytics')) {
+      breadcrumbs?.clear()
+    }
+
+    forgetUser()
+    sessions.clear()
+    store?.clear().catch(() => {})
+  }
+
+  /**
+   * Store the identified user for later page loads. Identifying users counts as
+   * analytics, so until that category is granted the user is kept in memory only.
+   */
+  function saveUser(): void {
+    if (!user || consent.status('analytics') !== 'granted') {
+      return
+    }
+    try {
+      localStorage.setItem(userKey, JSON.stringify(user))
+    } catch {
+      // Unavailable storage only costs persistence across reloads
+    }
+  }
+
+  function forgetUser(): void {
+    user = null
+    try {
+      localStorage.removeItem(userKey)
+    } catch {
+      // Nothing persisted
+    }
+  }
+
+  /**
+   * Schedule a flush after the flush interval, unless one is already pending.
+   */
+  function scheduleIntervalFlush(): void {
+    if (!flushTimer) {
       flushTimer = setTimeout(scheduleFlush, config.flushInterval)
     }
   }
 
+  /**
+   * Move aggregated metric data points into the event queue.
+   */
+  function drainMetrics(): void {
+    // Pending consent keeps series aggregating until granted; denial discards them
+    const status = consent.status('performance')
+    if (status !== 'granted') {
+      if (status === 'denied') {
+        meter.collect()
+      }
+      return
+    }
+    for (const event of meter.collect()) {
+      const processed = applyProcessors(enrich(event))
+      if (processed) {
+        eventQueue.push(processed)
+      }
+    }
+  }
+
+  /**
+   * Collect an 'error' event; shared by `trackError` and global error capture.
+   */
+  function collectError(name: string, error: unknown, properties?: Record<string, unknown>): void {
+    const stack = error instanceof Error ? error.stack : undefined
+    const message = error instanceof Error ? error.message : String(error)
+    const errorType = error instanceof Error ? error.name : typeof error
+    const frames = stack ? parseStack(stack, config.isInAppFrame) : undefined
+    const trail = breadcrumbs?.get()
+    const event: CollectedEvent = {
+      type: 'error',
+      name,
+      properties: {
+        ...properties,
+        errorType,
+        message,
+        stack,
+        frames,
+        ...(trail && trail.length > 0 ? { breadcrumbs: trail } : {}),
+      },
+    }
+    if (errorGroups) {
+      const fingerprint = fingerprintError(errorType, message, frames)
+      errorGroups.capture(fingerprint, {
+        ...event,
+        properties: { ...event.properties, fingerprint },
+      })
+    } else {
+      collect(event)
+    }
+    breadcrumbs?.add({ category: 'error', message: `${name}: ${message}`, level: 'error' })
+  }
+
+  // Finished spans become 'trace' events carrying their span data
+  const tracer = createTracer((name, attributes, span) => {
+    collect({
+      type: 'trace',
+      name,
+      value: span.endTime - span.startTime,
+      properties: attributes,
+      span,
+    })
+  })
+
   /**
    * Schedule a flush using requestIdleCallback for background processing.
    */
@@ -87,6 +502,7 @@ export function createObservability(
       flushTimer = null
     }
 
+    drainMetrics()
     if (eventQueue.length === 0) {
       return
     }
@@ -101,104 +517,95 @@ export function createObservability(
   }
 
   /**
-   * Calculate backoff delay with exponential increase.
-   */
-  function getBackoffDelay(): number {
-    // Exponential backoff: 5s, 10s, 20s, 40s, 80s, capped at MAX_BACKOFF_MS
-    const delay = Math.min(5000 * Math.pow(2, consecutiveFailures - 1), MAX_BACKOFF_MS)
-    return delay
-  }
-
-  /**
-   * Flush the event queue to the telemetry endpoint.
+   * Flush the event queue to every exporter.
+   * Each channel applies its own circuit breaker, so a failing exporter
+   * keeps its share of the batch for retry without holding up the others.
    */
   async function flush(): Promise<void> {
+    drainMetrics()
     if (eventQueue.length === 0) {
       return
     }
 
-    // Circuit breaker: skip if in backoff period
-    const now = Date.now()
-    if (now < backoffUntil) {
-      // Still in backoff — schedule a retry after the backoff expires
-      if (!flushTimer) {
-        flushTimer = setTimeout(scheduleFlush, backoffUntil - now)
+    // Another tab sends for this one; without a known leader the events wait here
+    if (coordinator && !coordinator.isLeader()) {
+      if (coordinator.forward(eventQueue)) {
+        eventQueue = []
+        queuedBytes = 0
       }
       return
     }
 
     const events = [...eventQueue]
     eventQueue = []
+    queuedBytes = 0
 
     if (isDebug) {
       console.log('[Observability] Flushing', events.length, 'events')
     }
 
-    try {
-      const response = await fetch(config.telemetryEndpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ events }),
-        keepalive: true,
+    await Promise.all(
+      channels.map((channel) => {
+        channel.enqueue(events)
+        return channel.deliver()
       })
-
-      if (!response.ok) {
-        throw new Error(`Telemetry request failed: ${response.status}`)
-      }
-
-      // Success — reset circuit breaker
-      if (consecutiveFailures > 0 && isDebug) {
-        console.log('[Observability] Telemetry recovered after', consecutiveFailures, 'failures')
-      }
-      consecutiveFailures = 0
-      backoffUntil = 0
-    } catch (error) {
-      consecutiveFailures++
-
-      // Re-queue failed events (but don't exceed 100 total to bound memory)
-      const spaceLeft = 100 - eventQueue.length
-      if (spaceLeft > 0) {
-        eventQueue.push(...events.slice(0, spaceLeft))
-      }
-
-      // Apply exponential backoff
-      const delay = getBackoffDelay()
-      backoffUntil = Date.now() + delay
-
-      // Suppress duplicate error logs (log at most once per minute)
-      const logNow = Date.now()
-      if (logNow - lastErrorLogged >= ERROR_LOG_INTERVAL_MS) {
-        lastErrorLogged = logNow
-        console.warn(
-          `[Observability] Telemetry send failed (attempt ${consecutiveFailures}, retry in ${Math.round(delay / 1000)}s):`,
-          error instanceof Error ? error.message : error
-        )
-      }
-
-      // Schedule retry after backoff
-      if (!flushTimer) {
-        flushTimer = setTimeout(scheduleFlush, delay)
-      }
-    }
+    )
   }
 
   /**
-   * Flush using Beacon API (for page unload).
+   * Flush using each exporter's unload path (Beacon API for the built-ins).
    */
   function flushWithBeacon(): void {
-    if (eventQueue.length === 0 || !config.useBeacon) {
+    if (!config.useBeacon) {
       return
     }
 
+    errorGroups?.flush()
+    drainMetrics()
     const events = [...eventQueue]
     eventQueue = []
+    queuedBytes = 0
 
-    if (isDebug) {
+    if (events.length > 0 && coordinator && !coordinator.isLeader()) {
+      // The leading tab stays open to send them; beacon only when there is none
+      if (coordinator.forward(events)) {
+        return
+      }
+    }
+
+    if (isDebug && events.length > 0) {
       console.log('[Observability] Beacon flush', events.length, 'events')
     }
 
-    const blob = new Blob([JSON.stringify({ events })], { type: 'application/json' })
-    navigator.sendBeacon(config.telemetryEndpoint, blob)
+    for (const channel of channels) {
+      channel.enqueue(events)
+      channel.deliverOnUnload()
+    }
+  }
+
+  /**
+   * Snapshot delivery health across the queue, the consent buffer and every exporter.
+   */
+  function getStats(): TelemetryStats {
+    const exporterStats = channels.map((channel) => channel.stats())
+    let lastError: DeliveryError | undefined
+    for (const stats of exporterStats) {
+      if (stats.lastError && (!lastError || stats.lastError.timestamp >= lastError.timestamp)) {
+        lastError = stats.lastError
+      }
+    }
+
+    // Every exporter retries its own copy of a batch, so count the longest retry queue once
+    const retrying = Math.max(0, ...exporterStats.map((stats) => stats.pending))
+    return {
+      queued: eventQueue.length + consentBuffer.length + retrying,
+      sent: exporterStats.reduce((total, stats) => total + stats.sent, 0),
+      dropped: { ...dropped },
+      failedAttempts: exporterStats.reduce((total, stats) => total + stats.failedAttempts, 0),
+      circuit: exporterStats.some((stats) => stats.circuit === 'open') ? 'open' : 'closed',
+      ...(lastError ? { lastError } : {}),
+      exporters: exporterStats,
+    }
   }
 
   /**
@@ -221,6 +628,109 @@ export function createObservability(
       window.addEventListener('beforeunload', boundFlushWithBeacon)
     }
 
+    if (config.captureGlobalErrors) {
+      uninstallGlobalErrorHandlers = installGlobalErrorHandlers(collectError)
+    }
+
+    // Never record our own deliveries, or every flush would produce more telemetry
+    const ownEndpoints = [
+      config.telemetryEndpoint,
+      ...(config.otlp ? [config.otlp.endpoint] : []),
+      ...exporters.flatMap((exporter) => exporter.endpoints ?? []),
+    ]
+
+    if (breadcrumbs) {
+      uninstallBreadcrumbCapture = installBreadcrumbCapture(breadcrumbs, {
+        excludeUrls: ownEndpoints,
+      })
+    }
+
+    if (config.instrumentHttp) {
+      uninstallHttpInstrumentation = installHttpInstrumentation(tracer, {
+        ...(config.instrumentHttp === true ? {} : config.instrumentHttp),
+        excludeUrls: ownEndpoints,
+      })
+    }
+
+    if (config.trackResources) {
+      uninstallResourceTiming = installResourceTiming(
+        ({ transferSize, ...summary }) =>
+          collect({
+            type: 'metric',
+            name: 'resources.transfer_size',
+            value: transferSize,
+            properties: { ...summary },
+          }),
+        {
+          ...(config.trackResources === true ? {} : config.trackResources),
+          excludeUrls: ownEndpoints,
+        }
+      )
+    }
+
+    if (config.autocapture) {
+      uninstallAutocapture = installAutocapture(
+        (name, properties) => collect({ type: 'event', name, properties }),
+        config.autocapture === true ? {} : config.autocapture
+      )
+    }
+
+    if (config.trackRoutes) {
+      uninstallRouteTracking = installRouteTracking(routes, routeConfig)
+    }
+
+    if (config.coordinateTabs) {
+      const coordination = config.coordinateTabs === true ? {} : config.coordinateTabs
+      coordinator = createTabCoordinator({
+        ...coordination,
+        channelName: coordination.channelName ?? `${config.sessionKey}_tabs`,
+        getBreakers: () =>
+          Object.fromEntries(
+            channels.map((channel) => {
+              const { name, consecutiveFailures, retryAt } = channel.stats()
+              return [name, { consecutiveFailures, retryAt }]
+            })
+          ),
+        onBreakers(breakers) {
+          for (const channel of channels) {
+            const state = breakers[channel.exporter.name]
+            if (state) {
+              channel.syncBreaker(state)
+            }
+          }
+        },
+        onEvents(events) {
+          for (const event of events) {
+            enqueue(event)
+          }
+        },
+        onLeaderChange(isLeader) {
+          // The leader replays batches that earlier page loads of any tab stored
+          if (isLeader) {
+            for (const channel of channels) {
+              void channel.deliver()
+            }
+          }
+          scheduleFlush()
+        },
+      })
+    }
+
+    if (config.internalMetrics) {
+      uninstallInternalMetrics = installInternalMetrics(
+        meter,
+        getStats,
+        config.internalMetrics === true ? {} : config.internalMetrics
+      )
+    }
+
+    if (store && !coordinator) {
+      // Replay batches left behind by a previous page load (coordinated tabs wait to lead)
+      for (const channel of channels) {
+        void channel.deliver()
+      }
+    }
+
     isInitialized = true
 
     if (isDebug) {
@@ -239,7 +749,36 @@ export function createObservability(
       rating?: MetricRating,
       properties?: Record<string, unknown>
     ): void {
-      collect({ type: 'metric', name, value, rating, properties })
+      const rated = rateThreshold(name, value)
+      collect({ type: 'metric', name, value, rating: rating ?? rated?.rating, properties })
+
+      // An explicit rating overrides the thresholds, so it never counts against the budget
+      if (!rated || rating || !reportBudgetViolations) {
+        return
+      }
+      if (rated.rating === 'good') {
+        overBudget.delete(name)
+      } else if (!overBudget.has(name)) {
+        overBudget.add(name)
+        collect({
+          type: 'event',
+          name: 'budget_violation',
+          properties: {
+            metric: name,
+            value,
+            rating: rated.rating,
+            threshold: rated.rating === 'poor' ? rated.threshold.poor : rated.threshold.good,
+          },
+        })
+      }
+    },
+
+    addBreadcrumb(breadcrumb): void {
+      breadcrumbs?.add({ ...breadcrumb, category: breadcrumb.category ?? 'manual' })
+    },
+
+    rateMetric(name: string, value: number): MetricRating | undefined {
+      return rateThreshold(name, value)?.rating
     },
 
     trackEvent(name: string, properties?: Record<string, unknown>): void {
@@ -251,22 +790,23 @@ export function createObservability(
       error: unknown,
       properties?: Record<string, unknown>
     ): void {
-      collect({
-        type: 'error',
-        name,
-        properties: {
-          ...properties,
-          error,
-          message: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-        },
-      })
+      collectError(name, error, properties)
     },
 
     trackTrace(name: string, properties?: Record<string, unknown>): void {
       collect({ type: 'trace', name, properties })
     },
 
+    startSpan: tracer.startSpan,
+    withSpan: tracer.withSpan,
+    getActiveSpan: tracer.getActiveSpan,
+    bindContext: tracer.bindContext,
+
+    counter: meter.counter,
+    upDownCounter: meter.upDownCounter,
+    gauge: meter.gauge,
+    histogram: meter.histogram,
+
     captureException(error: unknown, context?: Record<string, unknown>): void {
       this.trackError('exception', error, context)
       console.error('[Observability] Exception captured:', error)
@@ -276,6 +816,8 @@ export function createObservability(
       this.trackEvent('page_view', { path, ...properties })
     },
 
+    trackRouteChange: routes.navigate,
+
     flush(): void {
       scheduleFlush()
     },
@@ -290,13 +832,60 @@ export function createObservability(
           window.removeEventListener('beforeunload', boundFlushWithBeacon)
           boundFlushWithBeacon = null
         }
+        if (uninstallGlobalErrorHandlers) {
+          uninstallGlobalErrorHandlers()
+          uninstallGlobalErrorHandlers = null
+        }
+        if (uninstallRouteTracking) {
+          uninstallRouteTracking()
+          uninstallRouteTracking = null
+        }
+        if (uninstallAutocapture) {
+          uninstallAutocapture()
+          uninstallAutocapture = null
+        }
+      }
+
+      if (uninstallHttpInstrumentation) {
+        uninstallHttpInstrumentation()
+        uninstallHttpInstrumentation = null
+      }
+
+      if (uninstallResourceTiming) {
+        uninstallResourceTiming()
+        uninstallResourceTiming = null
+      }
+
+      if (uninstallBreadcrumbCapture) {
+        uninstallBreadcrumbCapture()
+        uninstallBreadcrumbCapture = null
       }
 
+      if (uninstallInternalMetrics) {
+        uninstallInternalMetrics()
+        uninstallInternalMetrics = null
+      }
+
+      if (coordinator) {
+        coordinator.stop()
+        coordinator = null
+      }
+
+      // Queue the final error repeat counts before the flush timer they schedule is cleared
+      errorGroups?.flush()
       if (flushTimer) {
         clearTimeout(flushTimer)
         flushTimer = null
       }
 
+      // Send what is still queued, then shut exporters down
+      const disposeChannels = (): void => {
+        for (const channel of channels) {
+          channel.dispose()
+        }
+      }
+      void flush().then(disposeChannels, disposeChannels)
+
       isInitialized = false
       resetSessionCache()
 
@@ -305,8 +894,35 @@ export function createObservability(
       }
     },
 
+    getStats,
+
     getSessionId(): string {
       return getSession()
     },
+
+    identify(userId: string, traits?: Record<string, unknown>): void {
+      user = traits ? { id: userId, traits } : { id: userId }
+      saveUser()
+    },
+
+    resetUser(): void {
+      forgetUser()
+      if (!config.sessionIdProvider) {
+        sessions.rotate()
+      }
+    },
+
+    setConsent(choices: Partial<Record<ConsentCategory, boolean>>): void {
+      const { granted, revoked } = consent.update(choices)
+      if (revoked.length > 0) {
+        purge(revoked)
+      }
+      if (granted.includes('analytics')) {
+        saveUser()
+      }
+      releaseConsentBuffer()
+    },
+
+    getConsent: consent.get,
   }
 }
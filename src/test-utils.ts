@@ -0,0 +1,46 @@
+/**
+ * Test Utilities
+ *
+ * Exporters shared by the test suites: one that keeps every event it is
+ * given, and one whose methods are mocks to assert calls and fail on demand.
+ */
+
+import { vi } from 'vitest'
+import type { Exporter, TelemetryEvent } from './types'
+
+export type MockExporter = Exporter & {
+  export: ReturnType<typeof vi.fn>
+  exportOnUnload: ReturnType<typeof vi.fn>
+  shutdown: ReturnType<typeof vi.fn>
+}
+
+/**
+ * An exporter named `memory` collecting exported events in `events`, oldest
+ * first. `overrides` replace or add exporter fields such as `endpoints`.
+ */
+export function createMemoryExporter(overrides: Partial<Exporter> = {}): {
+  events: TelemetryEvent[]
+  exporter: Exporter
+} {
+  const events: TelemetryEvent[] = []
+  const exporter: Exporter = {
+    name: 'memory',
+    async export(batch) {
+      events.push(...batch)
+    },
+    ...overrides,
+  }
+  return { events, exporter }
+}
+
+/**
+ * An exporter whose export succeeds until told otherwise, with every method a mock.
+ */
+export function createMockExporter(name: string): MockExporter {
+  return {
+    name,
+    export: vi.fn().mockResolvedValue(undefined),
+    exportOnUnload: vi.fn(),
+    shutdown: vi.fn(),
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { createThresholdRater } from './thresholds'
+
+describe('createThresholdRater', () => {
+  const rate = createThresholdRater([
+    { name: 'api.search', good: 500, poor: 3000 },
+    { name: 'api.*', good: 200, poor: 1000 },
+    { name: /^render\./, good: 16, poor: 50 },
+  ])
+
+  it('rates values against the good and poor boundaries', () => {
+    expect(rate('api.users', 200)?.rating).toBe('good')
+    expect(rate('api.users', 201)?.rating).toBe('needs-improvement')
+    expect(rate('api.users', 1000)?.rating).toBe('needs-improvement')
+    expect(rate('api.users', 1001)?.rating).toBe('poor')
+  })
+
+  it('uses the first threshold whose name matches', () => {
+    expect(rate('api.search', 800)).toEqual({
+      rating: 'needs-improvement',
+      threshold: { name: 'api.search', good: 500, poor: 3000 },
+    })
+    expect(rate('render.List', 60)?.rating).toBe('poor')
+  })
+
+  it('returns undefined for metrics without a threshold', () => {
+    expect(rate('checkout.submit', 10)).toBeUndefined()
+    expect(createThresholdRater([])('api.users', 10)).toBeUndefined()
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * Metric Thresholds
+ *
+ * Rates custom metrics against configured boundaries, the way web-vitals
+ * rates Core Web Vitals: values up to `good` are good, values above `poor`
+ * are poor, and anything in between needs improvement.
+ */
+
+import type { MetricRating, MetricThreshold } from './types'
+import { globToRegExp } from './sampling'
+
+export interface ThresholdResult {
+  rating: MetricRating
+  threshold: MetricThreshold
+}
+
+/**
+ * Rate a metric value, or return undefined when no threshold matches its name.
+ */
+export type ThresholdRater = (name: string, value: number) => ThresholdResult | undefined
+
+/**
+ * Create a rater from threshold definitions. The first threshold whose name
+ * (exact, glob or RegExp) matches is used.
+ *
+ * @example
+ * ```ts
+ * const rate = createThresholdRater([{ name: 'api.*', good: 200, poor: 1000 }])
+ * rate('api.users', 450)?.rating // 'needs-improvement'
+ * ```
+ */
+export function createThresholdRater(thresholds: MetricThreshold[]): ThresholdRater {
+  const compiled = thresholds.map((threshold) => ({
+    pattern: typeof threshold.name === 'string' ? globToRegExp(threshold.name) : threshold.name,
+    threshold,
+  }))
+
+  return (name, value) => {
+    const match = compiled.find(({ pattern }) => pattern.test(name))
+    if (!match) {
+      return undefined
+    }
+
+    const { threshold } = match
+    let rating: MetricRating = 'needs-improvement'
+    if (value <= threshold.good) {
+      rating = 'good'
+    } else if (value > threshold.poor) {
+      rating = 'poor'
+    }
+    return { rating, threshold }
+  }
+}
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { createTracer, formatTraceparent, parseTraceparent } from './tracing'
+import type { SpanData } from './types'
+import { createObservability } from './telemetry'
+import { resetSessionCache } from './session'
+
+describe('tracing', () => {
+  const finished: Array<{ name: string; attributes: Record<string, unknown>; data: SpanData }> = []
+  const tracer = createTracer((name, attributes, data) => {
+    finished.push({ name, attributes, data })
+  })
+
+  beforeEach(() => {
+    finished.length = 0
+  })
+
+  describe('startSpan', () => {
+    it('creates root spans with fresh W3C identifiers', () => {
+      const span = tracer.startSpan('root', { attributes: { 'app.feature': 'cart' } })
+      span.setAttribute('cart.items', 3)
+      span.end()
+
+      expect(finished).toHaveLength(1)
+      const [{ name, attributes, data }] = finished as [(typeof finished)[number]]
+      expect(name).toBe('root')
+      expect(attributes).toEqual({ 'app.feature': 'cart', 'cart.items': 3 })
+      expect(data.traceId).toMatch(/^[0-9a-f]{32}$/)
+      expect(data.spanId).toMatch(/^[0-9a-f]{16}$/)
+      expect(data.parentSpanId).toBeUndefined()
+      expect(data.kind).toBe('internal')
+      expect(data.endTime).toBeGreaterThanOrEqual(data.startTime)
+    })
+
+    it('nests explicit children under their parent', () => {
+      const parent = tracer.startSpan('parent')
+      const child = tracer.startSpan('child', { parent })
+      child.end()
+      parent.end()
+
+      const [childData, parentData] = finished.map((f) => f.data)
+      expect(childData?.traceId).toBe(parentData?.traceId)
+      expect(childData?.parentSpanId).toBe(parentData?.spanId)
+    })
+
+    it('continues a remote trace from a span context', () => {
+      const remote = parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')
+      tracer.startSpan('continued', { parent: remote }).end()
+
+      expect(finished[0]?.data.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736')
+      expect(finished[0]?.data.parentSpanId).toBe('00f067aa0ba902b7')
+    })
+
+    it('records events and status, and ignores calls after end', () => {
+      const span = tracer.startSpan('work')
+      span.addEvent('cache.miss', { key: 'user:1' })
+      span.setStatus('ok')
+      span.end()
+      span.setAttribute('late', true)
+      span.end()
+
+      expect(finished).toHaveLength(1)
+      expect(finished[0]?.data.events).toEqual([
+        { name: 'cache.miss', timestamp: expect.any(Number), attributes: { key: 'user:1' } },
+      ])
+      expect(finished[0]?.data.status).toEqual({ code: 'ok' })
+      expect(finished[0]?.attributes).toEqual({})
+      expect(span.isRecording()).toBe(false)
+    })
+  })
+
+  describe('withSpan', () => {
+    it('makes the span active for nested spans', () => {
+      tracer.withSpan('outer', (outer) => {
+        expect(tracer.getActiveSpan()).toBe(outer)
+        tracer.withSpan('inner', () => {})
+      })
+
+      expect(tracer.getActiveSpan()).toBeUndefined()
+      const [inner, outer] = finished.map((f) => f.data)
+      expect(inner?.parentSpanId).toBe(outer?.spanId)
+    })
+
+    it('ends async spans when the promise settles', async () => {
+      const result = await tracer.withSpan('async', async () => {
+        await Promise.resolve()
+        expect(finished).toHaveLength(0)
+        return 42
+      })
+
+      expect(result).toBe(42)
+      expect(finished).toHaveLength(1)
+    })
+
+    it('records exceptions and error status', async () => {
+      await expect(
+        tracer.withSpan('failing', async () => {
+          throw new Error('boom')
+        })
+      ).rejects.toThrow('boom')
+
+      const { data } = finished[0] as (typeof finished)[number]
+      expect(data.status).toEqual({ code: 'error', message: 'boom' })
+      expect(data.events[0]?.name).toBe('exception')
+      expect(data.events[0]?.attributes?.['exception.message']).toBe('boom')
+    })
+
+    it('forces a new trace with parent: null', () => {
+      tracer.withSpan('outer', () => {
+        tracer.startSpan('detached', { parent: null }).end()
+      })
+
+      const [detached, outer] = finished.map((f) => f.data)
+      expect(detached?.parentSpanId).toBeUndefined()
+      expect(detached?.traceId).not.toBe(outer?.traceId)
+    })
+  })
+
+  describe('async context', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('loses the active span after the first await without AsyncContext', async () => {
+      await tracer.withSpan('request', async () => {
+        tracer.startSpan('before_await').end()
+        await Promise.resolve()
+        expect(tracer.getActiveSpan()).toBeUndefined()
+        tracer.startSpan('after_await').end()
+      })
+
+      const [before, after, request] = finished.map((f) => f.data)
+      expect(before?.parentSpanId).toBe(request?.spanId)
+      expect(after?.parentSpanId).toBeUndefined()
+    })
+
+    it('keeps the active span across awaits with AsyncContext', async () => {
+      // AsyncLocalStorage propagates through await the way AsyncContext.Variable does
+      class Variable<T> {
+        private readonly storage = new AsyncLocalStorage<T>()
+        get(): T | undefined {
+          return this.storage.getStore()
+        }
+        run<R>(value: T, fn: () => R): R {
+          return this.storage.run(value, fn)
+        }
+      }
+      vi.stubGlobal('AsyncContext', { Variable })
+      const asyncTracer = createTracer((name, attributes, data) => {
+        finished.push({ name, attributes, data })
+      })
+
+      await Promise.all(
+        ['first', 'second'].map((name) =>
+          asyncTracer.withSpan(name, async (span) => {
+            await new Promise((resolve) => setTimeout(resolve, 1))
+            expect(asyncTracer.getActiveSpan()).toBe(span)
+            asyncTracer.startSpan(`${name}.child`).end()
+          })
+        )
+      )
+
+      const byName = Object.fromEntries(finished.map((f) => [f.name, f.data]))
+      expect(byName['first.child']?.parentSpanId).toBe(byName.first?.spanId)
+      expect(byName['second.child']?.parentSpanId).toBe(byName.second?.spanId)
+      expect(asyncTracer.getActiveSpan()).toBeUndefined()
+    })
+  })
+
+  describe('bindContext', () => {
+    it('lets deferred callbacks inherit the active span', async () => {
+      let callback: () => void = () => {}
+
+      tracer.withSpan('scheduler', () => {
+        callback = tracer.bindContext(() => {
+          tracer.startSpan('deferred').end()
+        })
+      })
+
+      // Runs after the scheduling span has ended and left the stack
+      await Promise.resolve().then(callback)
+
+      const [scheduler, deferred] = finished.map((f) => f.data)
+      expect(deferred?.parentSpanId).toBe(scheduler?.spanId)
+    })
+  })
+
+  describe('traceparent', () => {
+    it('round-trips span contexts', () => {
+      const context = { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), traceFlags: 1 }
+      const header = formatTraceparent(context)
+
+      expect(header).toBe(`00-${'a'.repeat(32)}-${'b'.repeat(16)}-01`)
+      expect(parseTraceparent(header)).toEqual(context)
+    })
+
+    it('rejects malformed and all-zero values', () => {
+      expect(parseTraceparent('garbage')).toBeUndefined()
+      expect(parseTraceparent(`00-${'0'.repeat(32)}-${'b'.repeat(16)}-01`)).toBeUndefined()
+      expect(parseTraceparent(`00-${'a'.repeat(32)}-${'0'.repeat(16)}-01`)).toBeUndefined()
+      expect(parseTraceparent(`ff-${'a'.repeat(32)}-${'b'.repeat(16)}-01`)).toBeUndefined()
+    })
+  })
+
+  describe('observability integration', () => {
+    beforeEach(() => {
+      resetSessionCache()
+      sessionStorage.clear()
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
+    it('delivers finished spans as trace events with span data', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response())
+
+      const obs = createObservability({ batchSize: 2 })
+      obs.withSpan('checkout', (span) => {
+        span.setAttribute('cart.items', 3)
+        obs.startSpan('validate').end()
+      })
+
+      await vi.runAllTimersAsync()
+
+      const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string)
+      const [validate, checkout] = body.events
+      expect(checkout.type).toBe('trace')
+      expect(checkout.name).toBe('checkout')
+      expect(checkout.properties).toEqual({ 'cart.items': 3 })
+      expect(checkout.value).toBeTypeOf('number')
+      expect(validate.span.parentSpanId).toBe(checkout.span.spanId)
+
+      obs.cleanup()
+    })
+  })
+})
@@ -0,0 +1,288 @@
+/**
+ * Tracing
+ *
+ * Span-based tracing with parent/child nesting and W3C Trace Context
+ * (`traceparent`) serialization.
+ *
+ * The active span follows async code through `await` when the runtime provides
+ * `AsyncContext` (the TC39 proposal, natively or through a polyfill). Without
+ * it the active span lives on a synchronous stack: inside `withSpan(async …)`
+ * it is visible only until the first `await`, and continuations (timers,
+ * promise callbacks, event handlers) inherit it only through `bindContext`.
+ */
+
+import type {
+  Span,
+  SpanContext,
+  SpanData,
+  SpanEvent,
+  SpanOptions,
+  SpanStatusCode,
+} from './types'
+
+const TRACEPARENT_VERSION = '00'
+const TRACE_FLAG_SAMPLED = 0x01
+const INVALID_TRACE_ID = '0'.repeat(32)
+const INVALID_SPAN_ID = '0'.repeat(16)
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/
+
+/**
+ * `AsyncContext.Variable` from the TC39 proposal.
+ */
+interface AsyncContextVariable<T> {
+  get: () => T | undefined
+  run: <R>(value: T, fn: () => R) => R
+}
+
+interface AsyncContextNamespace {
+  Variable: new <T>(options?: { name?: string }) => AsyncContextVariable<T>
+}
+
+/**
+ * Where the active span is kept while a callback runs.
+ */
+interface ContextStore {
+  get: () => Span | undefined
+  run: <T>(span: Span, fn: () => T) => T
+}
+
+export interface Tracer {
+  startSpan: (name: string, options?: SpanOptions) => Span
+  withSpan: <T>(name: string, fn: (span: Span) => T, options?: SpanOptions) => T
+  getActiveSpan: () => Span | undefined
+  bindContext: <TArgs extends unknown[], TResult>(
+    fn: (...args: TArgs) => TResult
+  ) => (...args: TArgs) => TResult
+}
+
+/**
+ * Receives every span once it has ended.
+ */
+export type SpanProcessor = (
+  name: string,
+  attributes: Record<string, unknown>,
+  data: SpanData
+) => void
+
+function randomHex(bytes: number): string {
+  const buffer = new Uint8Array(bytes)
+  crypto.getRandomValues(buffer)
+  return Array.from(buffer, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Generate a random 16-byte W3C trace ID.
+ */
+export function generateTraceId(): string {
+  const id = randomHex(16)
+  return id === INVALID_TRACE_ID ? generateTraceId() : id
+}
+
+/**
+ * Generate a random 8-byte W3C span ID.
+ */
+export function generateSpanId(): string {
+  const id = randomHex(8)
+  return id === INVALID_SPAN_ID ? generateSpanId() : id
+}
+
+/**
+ * Serialize a span context as a W3C `traceparent` header value.
+ */
+export function formatTraceparent(context: SpanContext): string {
+  const flags = context.traceFlags.toString(16).padStart(2, '0')
+  return `${TRACEPARENT_VERSION}-${context.traceId}-${context.spanId}-${flags}`
+}
+
+/**
+ * Parse a W3C `traceparent` header value.
+ * Returns undefined for malformed or all-zero identifiers.
+ */
+export function parseTraceparent(header: string): SpanContext | undefined {
+  const match = TRACEPARENT_PATTERN.exec(header.trim().toLowerCase())
+  if (!match) {
+    return undefined
+  }
+
+  const [, version, traceId, spanId, flags] = match
+  if (version === 'ff' || traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return undefined
+  }
+
+  return {
+    traceId: traceId as string,
+    spanId: spanId as string,
+    traceFlags: Number.parseInt(flags as string, 16),
+  }
+}
+
+/**
+ * Keep the active span in an `AsyncContext.Variable` when available, so it
+ * survives `await`; otherwise on a stack that only spans synchronous code.
+ */
+function createContextStore(): ContextStore {
+  const asyncContext = (globalThis as { AsyncContext?: AsyncContextNamespace }).AsyncContext
+  if (asyncContext) {
+    const variable = new asyncContext.Variable<Span>({ name: 'activeSpan' })
+    return { get: () => variable.get(), run: (span, fn) => variable.run(span, fn) }
+  }
+
+  const stack: Span[] = []
+  return {
+    get: () => stack[stack.length - 1],
+    run(span, fn) {
+      stack.push(span)
+      try {
+        return fn()
+      } finally {
+        stack.pop()
+      }
+    },
+  }
+}
+
+function isSpan(parent: Span | SpanContext): parent is Span {
+  return typeof (parent as Span).spanContext === 'function'
+}
+
+/**
+ * Create a tracer that hands finished spans to `onEnd`.
+ */
+export function createTracer(onEnd: SpanProcessor): Tracer {
+  const activeContext = createContextStore()
+  const getActiveSpan = activeContext.get
+
+  function runWithActive<T>(span: Span | undefined, fn: () => T): T {
+    return span ? activeContext.run(span, fn) : fn()
+  }
+
+  function startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent = options.parent === undefined ? getActiveSpan() : options.parent
+    const parentContext = parent ? (isSpan(parent) ? parent.spanContext() : parent) : undefined
+
+    const context: SpanContext = {
+      traceId: parentContext?.traceId ?? generateTraceId(),
+      spanId: generateSpanId(),
+      traceFlags: parentContext?.traceFlags ?? TRACE_FLAG_SAMPLED,
+    }
+
+    // Wall-clock start, with the duration measured on the monotonic clock
+    const startTime = options.startTime ?? Date.now()
+    const perfStart = performance.now()
+    const attributes: Record<string, unknown> = { ...options.attributes }
+    const events: SpanEvent[] = []
+    let status: { code: SpanStatusCode; message?: string } = { code: 'unset' }
+    let ended = false
+
+    const span: Span = {
+      name,
+
+      spanContext(): SpanContext {
+        return context
+      },
+
+      setAttribute(key: string, value: unknown): Span {
+        if (!ended) {
+          attributes[key] = value
+        }
+        return span
+      },
+
+      setAttributes(values: Record<string, unknown>): Span {
+        if (!ended) {
+          Object.assign(attributes, values)
+        }
+        return span
+      },
+
+      addEvent(eventName: string, eventAttributes?: Record<string, unknown>): Span {
+        if (!ended) {
+          events.push({ name: eventName, timestamp: Date.now(), attributes: eventAttributes })
+        }
+        return span
+      },
+
+      setStatus(code: SpanStatusCode, message?: string): Span {
+        if (!ended) {
+          status = message === undefined ? { code } : { code, message }
+        }
+        return span
+      },
+
+      recordException(error: unknown): Span {
+        return span.addEvent('exception', {
+          'exception.type': error instanceof Error ? error.name : typeof error,
+          'exception.message': error instanceof Error ? error.message : String(error),
+          'exception.stacktrace': error instanceof Error ? error.stack : undefined,
+        })
+      },
+
+      end(endTime?: number): void {
+        if (ended) {
+          return
+        }
+        ended = true
+
+        onEnd(name, attributes, {
+          traceId: context.traceId,
+          spanId: context.spanId,
+          parentSpanId: parentContext?.spanId,
+          kind: options.kind ?? 'internal',
+          startTime,
+          endTime: endTime ?? startTime + (performance.now() - perfStart),
+          status,
+          events,
+        })
+      },
+
+      isRecording(): boolean {
+        return !ended
+      },
+    }
+
+    return span
+  }
+
+  function withSpan<T>(name: string, fn: (span: Span) => T, options?: SpanOptions): T {
+    const span = startSpan(name, options)
+
+    const fail = (error: unknown): void => {
+      span.recordException(error)
+      span.setStatus('error', error instanceof Error ? error.message : String(error))
+      span.end()
+    }
+
+    let result: T
+    try {
+      result = runWithActive(span, () => fn(span))
+    } catch (error) {
+      fail(error)
+      throw error
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        (value) => {
+          span.end()
+          return value
+        },
+        (error: unknown) => {
+          fail(error)
+          throw error
+        }
+      ) as T
+    }
+
+    span.end()
+    return result
+  }
+
+  function bindContext<TArgs extends unknown[], TResult>(
+    fn: (...args: TArgs) => TResult
+  ): (...args: TArgs) => TResult {
+    const captured = getActiveSpan()
+    return (...args: TArgs) => runWithActive(captured, () => fn(...args))
+  }
+
+  return { startSpan, withSpan, getActiveSpan, bindContext }
+}
@@ -0,0 +1,240 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { byteLength, encodeWithinLimit, gzip, postJson, sendBeacon } from './transport'
+import { createHttpExporter, createOtlpExporter, ExportError } from './exporters'
+import type { TelemetryEvent } from './types'
+
+function events(count: number, padding = 0): TelemetryEvent[] {
+  return Array.from({ length: count }, (_, i) => ({
+    type: 'event',
+    name: `event_${i}`,
+    properties: { padding: 'x'.repeat(padding) },
+    timestamp: 0,
+    sessionId: 's',
+    page: '/',
+  }))
+}
+
+async function gunzip(body: ArrayBuffer): Promise<string> {
+  const stream = new DecompressionStream('gzip')
+  const writer = stream.writable.getWriter()
+  void writer.write(new Uint8Array(body))
+  void writer.close()
+  return new Response(stream.readable).text()
+}
+
+describe('transport', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    Reflect.deleteProperty(navigator, 'sendBeacon')
+  })
+
+  describe('byteLength', () => {
+    it('counts UTF-8 bytes', () => {
+      expect(byteLength('abc')).toBe(3)
+      expect(byteLength('é')).toBe(2)
+      expect(byteLength('🚀')).toBe(4)
+    })
+  })
+
+  describe('encodeWithinLimit', () => {
+    const encode = (batch: TelemetryEvent[]) => [
+      { url: '/t', body: JSON.stringify({ events: batch }), events: batch },
+    ]
+
+    it('keeps a batch that fits in one request', () => {
+      expect(encodeWithinLimit(events(5), 10_000, encode)).toHaveLength(1)
+    })
+
+    it('splits until every body fits, preserving order', () => {
+      const requests = encodeWithinLimit(events(10, 1000), 3000, encode)
+
+      expect(requests.length).toBeGreaterThan(3)
+      for (const request of requests) {
+        expect(byteLength(request.body)).toBeLessThanOrEqual(3000)
+      }
+      const names = requests.flatMap((r) =>
+        JSON.parse(r.body).events.map((e: TelemetryEvent) => e.name)
+      )
+      expect(names).toEqual(events(10).map((e) => e.name))
+    })
+
+    it('sends an oversized single event on its own', () => {
+      expect(encodeWithinLimit(events(1, 5000), 1000, encode)).toHaveLength(1)
+    })
+  })
+
+  describe('gzip', () => {
+    it('round-trips through DecompressionStream', async () => {
+      const body = JSON.stringify({ events: events(50) })
+      const compressed = await gzip(body)
+
+      expect(compressed?.byteLength).toBeLessThan(byteLength(body))
+      expect(await gunzip(compressed as ArrayBuffer)).toBe(body)
+    })
+  })
+
+  describe('postJson', () => {
+    it('sets Content-Encoding when compressing', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response())
+
+      await postJson({ url: '/t', body: '{"events":[]}', events: [] }, { compression: true })
+
+      const init = fetchSpy.mock.calls[0]?.[1]
+      expect(init?.headers).toEqual({
+        'Content-Type': 'application/json',
+        'Content-Encoding': 'gzip',
+      })
+      expect(await gunzip(init?.body as ArrayBuffer)).toBe('{"events":[]}')
+      expect(init?.keepalive).toBe(false)
+    })
+
+    it('sends plain JSON by default', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response())
+
+      await postJson({ url: '/t', body: '{}', events: [] }, { headers: { 'X-Key': '1' } })
+
+      expect(fetchSpy.mock.calls[0]?.[1]).toMatchObject({
+        body: '{}',
+        headers: { 'Content-Type': 'application/json', 'X-Key': '1' },
+      })
+    })
+  })
+
+  describe('sendBeacon', () => {
+    it('uses the beacon when it is accepted', () => {
+      const beacon = vi.fn().mockReturnValue(true)
+      Object.defineProperty(navigator, 'sendBeacon', { value: beacon, configurable: true })
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response())
+
+      expect(sendBeacon({ url: '/t', body: '{}', events: [] })).toBe(true)
+
+      expect(beacon).toHaveBeenCalledWith('/t', expect.any(Blob))
+      expect(fetchSpy).not.toHaveBeenCalled()
+    })
+
+    it('falls back to a keepalive fetch when the beacon is rejected', () => {
+      const beacon = vi.fn().mockReturnValue(false)
+      Object.defineProperty(navigator, 'sendBeacon', { value: beacon, configurable: true })
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response())
+
+      expect(sendBeacon({ url: '/t', body: '{}', events: [] }, { 'X-Key': '1' })).toBe(true)
+
+      expect(fetchSpy).toHaveBeenCalledWith(
+        '/t',
+        expect.objectContaining({
+          keepalive: true,
+          headers: expect.objectContaining({ 'X-Key': '1' }),
+        })
+      )
+    })
+
+    it('reports a keepalive fallback that fails', async () => {
+      vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response(null, { status: 503 }))
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValueOnce(new Response())
+      const onFailed = vi.fn()
+
+      for (let i = 0; i < 3; i++) {
+        expect(sendBeacon({ url: '/t', body: '{}', events: [] }, undefined, onFailed)).toBe(true)
+      }
+
+      await vi.waitFor(() => expect(onFailed).toHaveBeenCalledTimes(2))
+    })
+
+    it('falls back to a keepalive fetch when beacons are unavailable', () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response())
+
+      sendBeacon({ url: '/t', body: '{}', events: [] })
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps keepalive fallbacks within the 64KB in-flight budget', async () => {
+      let settle: () => void = () => {}
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(
+        () =>
+          new Promise((resolve) => {
+            settle = () => resolve(new Response())
+          })
+      )
+      const request = { url: '/t', body: 'x'.repeat(40_000), events: [] }
+
+      expect(sendBeacon(request)).toBe(true)
+      expect(sendBeacon(request)).toBe(false)
+      expect(fetchSpy).toHaveBeenCalledTimes(1)
+
+      // The budget frees up once the first request settles
+      settle()
+      await vi.waitFor(() => expect(sendBeacon(request)).toBe(true))
+      settle()
+    })
+  })
+
+  describe('exporters', () => {
+    it('chunks beacon payloads to the byte limit', () => {
+      const beacon = vi.fn().mockReturnValue(true)
+      Object.defineProperty(navigator, 'sendBeacon', { value: beacon, configurable: true })
+
+      const exporter = createHttpExporter({ endpoint: '/t', maxBatchBytes: 5000 })
+      exporter.exportOnUnload?.(events(20, 1000), () => {})
+
+      expect(beacon.mock.calls.length).toBeGreaterThanOrEqual(5)
+      for (const [, blob] of beacon.mock.calls) {
+        expect((blob as Blob).size).toBeLessThanOrEqual(5000)
+      }
+    })
+
+    it('reports only the events of refused beacon requests as lost', () => {
+      const beacon = vi.fn().mockReturnValueOnce(true).mockReturnValue(false)
+      Object.defineProperty(navigator, 'sendBeacon', { value: beacon, configurable: true })
+      // Bodies too large for the keepalive budget, so the fallback is refused too
+      const batch = events(2, 70_000)
+      const onLost = vi.fn()
+
+      createHttpExporter({ endpoint: '/t', maxBatchBytes: 75_000 }).exportOnUnload?.(batch, onLost)
+
+      expect(onLost).toHaveBeenCalledTimes(1)
+      expect(onLost).toHaveBeenCalledWith([batch[1]])
+    })
+
+    it('splits fetch requests by byte size', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response())
+
+      await createOtlpExporter({
+        endpoint: 'http://collector:4318',
+        serviceName: 'web',
+        maxBatchBytes: 10_000,
+      }).export(events(20, 1000))
+
+      expect(fetchSpy.mock.calls.length).toBeGreaterThan(2)
+      for (const [, init] of fetchSpy.mock.calls) {
+        expect(byteLength(init?.body as string)).toBeLessThanOrEqual(10_000)
+      }
+    })
+
+    it('sends requests one at a time and reports the undelivered events', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight)
+        await Promise.resolve()
+        inFlight--
+        return new Response(null, { status: fetchSpy.mock.calls.length === 2 ? 503 : 200 })
+      })
+      const batch = events(20, 1000)
+
+      const error = await createHttpExporter({ endpoint: '/t', maxBatchBytes: 5000 })
+        .export(batch)
+        .catch((reason: unknown) => reason)
+
+      expect(maxInFlight).toBe(1)
+      expect(fetchSpy).toHaveBeenCalledTimes(2)
+      expect(fetchSpy.mock.calls[0]?.[1]?.keepalive).toBe(false)
+      expect(error).toBeInstanceOf(ExportError)
+      const delivered = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string).events.length
+      expect((error as ExportError).undelivered).toEqual(batch.slice(delivered))
+      expect((error as ExportError).message).toBe('Telemetry request failed: 503')
+    })
+  })
+})
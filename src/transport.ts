@@ -0,0 +1,155 @@
+/**
+ * Transport Helpers
+ *
+ * Request encoding shared by the built-in exporters: splitting batches so each
+ * body stays under the browser's ~64KB beacon/keepalive limit, optional gzip
+ * via `CompressionStream`, and a beacon sender that falls back to a keepalive
+ * fetch when the beacon is unavailable or rejected. Only the unload path uses
+ * keepalive, within the browser's combined in-flight budget.
+ */
+
+import type { TelemetryEvent } from './types'
+
+/**
+ * Default cap on a serialized request body, leaving headroom under the 64KB
+ * in-flight limit browsers apply to beacons and keepalive requests.
+ */
+export const DEFAULT_MAX_BATCH_BYTES = 60_000
+
+// Browsers reject keepalive requests once in-flight keepalive bodies exceed 64KB combined
+const KEEPALIVE_BUDGET = 65_536
+let keepaliveBytes = 0
+
+export interface EncodedRequest {
+  url: string
+  /** Serialized JSON body */
+  body: string
+  /** Events carried by the body, retried if the request fails */
+  events: TelemetryEvent[]
+}
+
+export interface PostOptions {
+  headers?: Record<string, string> | undefined
+  /** Gzip the body when `CompressionStream` is available */
+  compression?: boolean | undefined
+  /** Let the request outlive the page; meant for the unload path only (default: false) */
+  keepalive?: boolean | undefined
+}
+
+const encoder = new TextEncoder()
+
+/**
+ * UTF-8 size of a string in bytes.
+ */
+export function byteLength(value: string): number {
+  return encoder.encode(value).length
+}
+
+/**
+ * Encode events into requests whose bodies fit in `maxBytes`, halving the batch
+ * until every body fits. A single event larger than the limit is sent on its own.
+ */
+export function encodeWithinLimit(
+  events: TelemetryEvent[],
+  maxBytes: number,
+  encode: (events: TelemetryEvent[]) => EncodedRequest[]
+): EncodedRequest[] {
+  const requests = encode(events)
+  if (events.length <= 1 || requests.every((request) => byteLength(request.body) <= maxBytes)) {
+    return requests
+  }
+
+  const middle = Math.ceil(events.length / 2)
+  return [
+    ...encodeWithinLimit(events.slice(0, middle), maxBytes, encode),
+    ...encodeWithinLimit(events.slice(middle), maxBytes, encode),
+  ]
+}
+
+/**
+ * Gzip a string, or return undefined when `CompressionStream` is unavailable.
+ */
+export async function gzip(body: string): Promise<ArrayBuffer | undefined> {
+  if (typeof CompressionStream === 'undefined') {
+    return undefined
+  }
+
+  const stream = new CompressionStream('gzip')
+  const writer = stream.writable.getWriter()
+  void writer.write(encoder.encode(body))
+  void writer.close()
+  return new Response(stream.readable).arrayBuffer()
+}
+
+/**
+ * POST a JSON body, gzipped with `Content-Encoding` when requested.
+ */
+export async function postJson(
+  request: EncodedRequest,
+  options: PostOptions = {}
+): Promise<Response> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...options.headers }
+  let body: BodyInit = request.body
+
+  if (options.compression) {
+    const compressed = await gzip(request.body)
+    if (compressed) {
+      body = compressed
+      headers['Content-Encoding'] = 'gzip'
+    }
+  }
+
+  const keepalive = options.keepalive ?? false
+  return fetch(request.url, { method: 'POST', headers, body, keepalive })
+}
+
+/**
+ * POST with `keepalive` so the request survives the page, or return false when
+ * the body does not fit in what is left of the keepalive budget. `onFailed` runs
+ * if the request errors or gets a non-2xx response.
+ */
+function postKeepalive(
+  request: EncodedRequest,
+  headers?: Record<string, string>,
+  onFailed?: () => void
+): boolean {
+  const size = byteLength(request.body)
+  if (keepaliveBytes + size > KEEPALIVE_BUDGET) {
+    return false
+  }
+
+  keepaliveBytes += size
+  postJson(request, { headers, keepalive: true })
+    .then(
+      (response) => {
+        if (!response.ok) {
+          onFailed?.()
+        }
+      },
+      () => onFailed?.()
+    )
+    .finally(() => {
+      keepaliveBytes -= size
+    })
+  return true
+}
+
+/**
+ * Queue a request with `navigator.sendBeacon`, falling back to a keepalive fetch
+ * when beacons are unavailable or the browser refuses the payload.
+ * Beacons cannot carry headers, so bodies are never compressed here.
+ * Returns whether the beacon or the fallback request was queued; `onFailed` runs
+ * later if the fallback request fails.
+ */
+export function sendBeacon(
+  request: EncodedRequest,
+  headers?: Record<string, string>,
+  onFailed?: () => void
+): boolean {
+  const queued =
+    typeof navigator !== 'undefined' &&
+    typeof navigator.sendBeacon === 'function' &&
+    navigator.sendBeacon(request.url, new Blob([request.body], { type: 'application/json' }))
+
+  return queued || postKeepalive(request, headers, onFailed)
+}
@@ -7,34 +7,616 @@
 export type TelemetryType = 'metric' | 'event' | 'error' | 'trace'
 export type MetricRating = 'good' | 'needs-improvement' | 'poor'
 
+/**
+ * A parsed stack frame, attached to 'error' events as `properties.frames`.
+ */
+export interface StackFrame {
+  file?: string | undefined
+  function?: string | undefined
+  /** 1-based line number */
+  line?: number | undefined
+  /** 1-based column number */
+  column?: number | undefined
+  /** Whether the frame belongs to application code rather than vendors/extensions */
+  inApp: boolean
+}
+
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer'
+export type SpanStatusCode = 'unset' | 'ok' | 'error'
+
+/**
+ * Identity of a span as propagated through W3C `traceparent`.
+ */
+export interface SpanContext {
+  traceId: string
+  spanId: string
+  traceFlags: number
+}
+
+export interface SpanEvent {
+  name: string
+  timestamp: number
+  attributes?: Record<string, unknown> | undefined
+}
+
+/**
+ * Timing and context of a finished span, carried on 'trace' events.
+ * Times are epoch milliseconds.
+ */
+export interface SpanData {
+  traceId: string
+  spanId: string
+  parentSpanId?: string | undefined
+  kind: SpanKind
+  startTime: number
+  endTime: number
+  status: { code: SpanStatusCode; message?: string }
+  events: SpanEvent[]
+}
+
+export type InstrumentKind = 'counter' | 'upDownCounter' | 'gauge' | 'histogram'
+
+/**
+ * Aggregated data point produced by a metric instrument, carried on 'metric'
+ * events. Counters and histograms are cumulative since `startTime`.
+ */
+export interface MetricData {
+  kind: InstrumentKind
+  /** Start of the cumulative series (epoch ms) */
+  startTime: number
+  unit?: string | undefined
+  description?: string | undefined
+  /** Histogram only: number of observations */
+  count?: number
+  /** Histogram only: sum of observations */
+  sum?: number
+  min?: number
+  max?: number
+  /** Histogram only: explicit bucket upper bounds */
+  boundaries?: number[]
+  /** Histogram only: counts per bucket (`boundaries.length + 1` entries) */
+  bucketCounts?: number[]
+}
+
+export interface UserIdentity {
+  id: string
+  traits?: Record<string, unknown> | undefined
+}
+
 export interface TelemetryEvent {
   type: TelemetryType
   name: string
   value?: number | undefined
   rating?: MetricRating | undefined
   properties?: Record<string, unknown> | undefined
+  /** Present on 'trace' events produced by `startSpan`/`withSpan` */
+  span?: SpanData | undefined
+  /** Present on 'metric' events produced by aggregating instruments */
+  metric?: MetricData | undefined
+  /** The identified user, set through `identify()` */
+  user?: UserIdentity | undefined
+  /**
+   * Probability (0–1] the event was kept with when sampling is configured;
+   * each kept event stands for `1 / sampleRate` events
+   */
+  sampleRate?: number | undefined
   timestamp: number
   sessionId: string
   page: string
 }
 
+export interface Span {
+  readonly name: string
+  spanContext: () => SpanContext
+  setAttribute: (key: string, value: unknown) => Span
+  setAttributes: (attributes: Record<string, unknown>) => Span
+  addEvent: (name: string, attributes?: Record<string, unknown>) => Span
+  setStatus: (code: SpanStatusCode, message?: string) => Span
+  recordException: (error: unknown) => Span
+  /** End the span; later calls are ignored */
+  end: (endTime?: number) => void
+  isRecording: () => boolean
+}
+
+export interface SpanOptions {
+  /** Parent span or remote context; defaults to the active span, `null` forces a new trace */
+  parent?: Span | SpanContext | null
+  kind?: SpanKind
+  attributes?: Record<string, unknown>
+  /** Start time in epoch milliseconds (defaults to now) */
+  startTime?: number
+}
+
+export interface OtlpConfig {
+  /** Collector base URL; `/v1/logs`, `/v1/metrics` and `/v1/traces` are appended */
+  endpoint: string
+  /** Value of the `service.name` resource attribute */
+  serviceName: string
+  /** Additional resource attributes (e.g. `deployment.environment`, `service.version`) */
+  resourceAttributes?: Record<string, string | number | boolean>
+  /** Extra request headers for fetch delivery (beacons cannot carry headers) */
+  headers?: Record<string, string>
+  /** Split batches so each request body stays under this many bytes (default: 60 000) */
+  maxBatchBytes?: number
+  /** Gzip fetch request bodies with `Content-Encoding: gzip` (default: false) */
+  compression?: boolean
+}
+
+/**
+ * Transport that delivers batches of telemetry events to a destination.
+ */
+export interface Exporter {
+  /** Identifier used in log messages */
+  name: string
+  /** URLs this exporter sends to, never recorded by HTTP instrumentation */
+  endpoints?: string[]
+  /**
+   * Deliver a batch; rejecting triggers retry with exponential backoff. Reject with an
+   * `ExportError` listing the undelivered events to retry only those.
+   */
+  export: (events: TelemetryEvent[]) => Promise<void>
+  /**
+   * Deliver synchronously during page unload (e.g. via the Beacon API). Return false
+   * when the whole batch was refused, or pass events that could not be sent to `onLost`,
+   * also after returning, so they are counted as dropped.
+   */
+  exportOnUnload?: (
+    events: TelemetryEvent[],
+    onLost: (events: TelemetryEvent[]) => void
+  ) => boolean | undefined
+  /** Release resources when the instance is cleaned up */
+  shutdown?: () => void | Promise<void>
+}
+
+/**
+ * Why events were lost: the retry queue of a failing exporter was full, an unload
+ * beacon and its keepalive fallback were refused or failed, an unload delivery failed,
+ * the consent buffer was full, an error was over its rate limit, an event processor
+ * threw, or stored batches were evicted for age or the `persistence` limits.
+ */
+export type DropReason =
+  | 'queue_overflow'
+  | 'beacon_rejected'
+  | 'unload_failed'
+  | 'consent_buffer_overflow'
+  | 'rate_limited'
+  | 'processor_failed'
+  | 'storage_evicted'
+
+export type CircuitState = 'closed' | 'open'
+
+export interface DeliveryResult {
+  /** Exporter name */
+  exporter: string
+  /** Events in the delivered batch */
+  events: number
+  /** Time taken by the export (ms) */
+  duration: number
+}
+
+export interface DeliveryFailure {
+  /** Exporter name */
+  exporter: string
+  /** Events in the failed batch */
+  events: number
+  error: unknown
+  /** Consecutive failures of this exporter, including this one */
+  attempt: number
+  /** Delay before the next attempt (ms) */
+  retryIn: number
+}
+
+export interface DeliveryError {
+  exporter: string
+  message: string
+  timestamp: number
+}
+
+export interface ExporterStats {
+  name: string
+  /** Events waiting in this exporter's retry queue */
+  pending: number
+  /** Events the exporter accepted */
+  sent: number
+  /** Failed export attempts */
+  failedAttempts: number
+  consecutiveFailures: number
+  /** 'open' while the circuit breaker is backing off */
+  circuit: CircuitState
+  /** When the next attempt is allowed (epoch ms, 0 while closed) */
+  retryAt: number
+  lastError?: DeliveryError
+}
+
+export interface TelemetryStats {
+  /** Events waiting to be flushed or retried, or buffered until consent is given */
+  queued: number
+  /** Events accepted by exporters, counted once per exporter */
+  sent: number
+  dropped: Record<DropReason, number>
+  /** Failed export attempts across exporters */
+  failedAttempts: number
+  /** 'open' while any exporter's circuit breaker is backing off */
+  circuit: CircuitState
+  /** Most recent delivery error across exporters */
+  lastError?: DeliveryError
+  exporters: ExporterStats[]
+}
+
+export interface TabCoordinationConfig {
+  /**
+   * BroadcastChannel name, or localStorage key without BroadcastChannel, shared by
+   * coordinating tabs (default: `${sessionKey}_tabs`)
+   */
+  channelName?: string
+  /** How often the leader announces itself (ms, default: 2000) */
+  heartbeatInterval?: number
+  /** Another tab takes over after this long without a heartbeat (ms, default: 6000) */
+  leaderTimeout?: number
+}
+
+export interface InternalMetricsConfig {
+  /** Time between reports (ms, default: 60 000) */
+  interval?: number
+}
+
+export interface InstrumentOptions {
+  description?: string
+  /** Unit of measure, e.g. 'ms', 'By', '{request}' */
+  unit?: string
+}
+
+export interface HistogramOptions extends InstrumentOptions {
+  /** Explicit bucket upper bounds (defaults to OpenTelemetry's millisecond buckets) */
+  boundaries?: number[]
+}
+
+export interface Counter {
+  /** Increment by a non-negative value (defaults to 1) */
+  add: (value?: number, attributes?: Record<string, string | number | boolean>) => void
+}
+
+export interface UpDownCounter {
+  add: (value: number, attributes?: Record<string, string | number | boolean>) => void
+}
+
+export interface Gauge {
+  record: (value: number, attributes?: Record<string, string | number | boolean>) => void
+}
+
+export interface Histogram {
+  record: (value: number, attributes?: Record<string, string | number | boolean>) => void
+}
+
+export interface HttpInstrumentationConfig {
+  /**
+   * Origins or URL patterns that receive a `traceparent` header.
+   * Same-origin requests always do; strings match as URL prefixes.
+   */
+  propagateTraceHeaderOrigins?: Array<string | RegExp>
+  /** Additional URLs to leave uninstrumented; strings match as URL prefixes */
+  ignoreUrls?: Array<string | RegExp>
+  /** Map a request URL to a low-cardinality template (defaults to origin + normalized path) */
+  urlTemplate?: (url: URL) => string
+}
+
+export interface ResourceTimingConfig {
+  /** Additional URLs to leave out of summaries; strings match as URL prefixes */
+  ignoreUrls?: Array<string | RegExp>
+  /** Slowest resources listed individually with their network phases (default: 5) */
+  maxSlowResources?: number
+}
+
+export interface PersistenceConfig {
+  /** IndexedDB database / localStorage key (default: 'pleme_observability_queue') */
+  storageKey?: string
+  /** Maximum stored batches; the oldest are evicted first (default: 50) */
+  maxBatches?: number
+  /** Maximum stored events across all batches (default: 1000) */
+  maxEvents?: number
+  /** Discard batches older than this many ms (default: 24 hours) */
+  maxAge?: number
+}
+
+/**
+ * Inspect or modify an event before it is queued. Return the event (or a
+ * replacement) to keep it, or null to drop it.
+ */
+export type EventProcessor = (event: TelemetryEvent) => TelemetryEvent | null
+
+export interface ScrubConfig {
+  /**
+   * Property keys whose values are always redacted, added to the defaults
+   * (`password`, `token`, `authorization`, ...). Strings match case-insensitively
+   * anywhere in the key, ignoring `-`, `_` and `.`; RegExps are tested against the key.
+   */
+  denyKeys?: Array<string | RegExp>
+  /** Query-string parameters whose values are redacted in URLs, added to the defaults */
+  denyQueryParams?: string[]
+  /** Additional patterns redacted from every string value */
+  patterns?: RegExp[]
+  /** Replacement text (default: '[REDACTED]') */
+  replacement?: string
+}
+
+/**
+ * Consent categories: 'event' telemetry is analytics, 'metric' and 'trace'
+ * are performance, and 'error' is errors.
+ */
+export type ConsentCategory = 'analytics' | 'performance' | 'errors'
+export type ConsentStatus = 'granted' | 'denied' | 'pending'
+export type ConsentState = Record<ConsentCategory, ConsentStatus>
+
+export interface ConsentConfig {
+  /** Choices known at startup; categories left out stay pending until `setConsent` */
+  initial?: Partial<Record<ConsentCategory, boolean>>
+  /**
+   * Events collected while their category is pending: 'buffer' holds them until
+   * consent is granted, 'discard' drops them (default: 'buffer')
+   */
+  pending?: 'buffer' | 'discard'
+  /** Maximum events held while consent is pending; later ones are dropped (default: 100) */
+  maxBuffered?: number
+  /** Deny analytics and performance when `navigator.globalPrivacyControl` is set (default: false) */
+  honorGlobalPrivacyControl?: boolean
+  /** Deny analytics and performance when Do Not Track is enabled (default: false) */
+  honorDoNotTrack?: boolean
+}
+
+export interface SessionConfig {
+  /** Start a new session after this many ms without activity in any tab (default: 30 minutes) */
+  inactivityTimeout?: number
+  /** Start a new session once the current one is this many ms old (default: 4 hours) */
+  maxDuration?: number
+  /**
+   * Opt in to `session_start` and `session_end` events when sessions rotate. Off by default so
+   * existing event streams do not change (default: false)
+   */
+  lifecycleEvents?: boolean
+}
+
+export interface SamplingRule {
+  /** Event name: a glob (`*` matches any run of characters) or a RegExp */
+  name: string | RegExp
+  /** Only apply to events of this type (optional) */
+  type?: TelemetryType
+  /** Probability of keeping a matching event, 0–1 */
+  rate: number
+}
+
+export interface SamplingConfig {
+  /** Rate for events no rule or type rate matches (default: 1) */
+  rate?: number
+  /** Rates per event type */
+  types?: Partial<Record<TelemetryType, number>>
+  /** Rates per event name; the first matching rule wins over type rates */
+  rules?: SamplingRule[]
+  /**
+   * Derive decisions from the session ID so a sampled-in session is captured
+   * consistently rather than event by event (default: true)
+   */
+  sessionConsistent?: boolean
+  /** Keep every 'error' event regardless of rates (default: true) */
+  alwaysKeepErrors?: boolean
+}
+
+export type NavigationType = 'initial' | 'push' | 'replace' | 'pop' | 'hash'
+
+export interface RouteChangeOptions {
+  /** Route template (e.g. `/users/:id`); defaults to the normalized path */
+  route?: string
+  /** How the navigation happened (default: 'push') */
+  navigationType?: NavigationType
+  /** Time the navigation took to resolve in ms, when the router knows it */
+  duration?: number
+}
+
+export interface RouteTrackingConfig {
+  /** Treat `#/path` hashes as routes, for hash-based routers (default: false) */
+  hashRouting?: boolean
+  /** Map a path to a route template (defaults to replacing ID-like segments with `:id`) */
+  routeTemplate?: (path: string) => string
+  /** Emit a page view for the page the instance was created on (default: true) */
+  trackInitialPage?: boolean
+}
+
+export type BreadcrumbCategory =
+  | 'event'
+  | 'navigation'
+  | 'click'
+  | 'fetch'
+  | 'console'
+  | 'error'
+  | 'manual'
+
+export type BreadcrumbLevel = 'debug' | 'info' | 'warning' | 'error'
+
+export interface Breadcrumb {
+  category: BreadcrumbCategory
+  message: string
+  level?: BreadcrumbLevel | undefined
+  data?: Record<string, unknown> | undefined
+  timestamp: number
+}
+
+export interface BreadcrumbConfig {
+  /** Breadcrumbs kept; the oldest are dropped first (default: 50) */
+  maxBreadcrumbs?: number
+  /** Categories recorded (default: all) */
+  categories?: BreadcrumbCategory[]
+}
+
+export interface ErrorGroupingConfig {
+  /**
+   * Repeats of a fingerprint within this many ms after its first occurrence are
+   * collapsed into one event with a `count` (default: 5000, 0 disables collapsing)
+   */
+  dedupeWindow?: number
+  /** Error events emitted per fingerprint per minute (default: 10) */
+  maxPerFingerprint?: number
+  /** Error events emitted per minute across all fingerprints (default: 60) */
+  maxErrorsPerMinute?: number
+}
+
+export interface AutocaptureConfig {
+  /** Emit 'element_click' for clicks on links, buttons and `[data-track]` elements (default: true) */
+  clicks?: boolean
+  /** Emit 'form_submit' for form submissions (default: true) */
+  submits?: boolean
+  /** Emit 'input_change' when a field's value changes (default: true) */
+  changes?: boolean
+  /**
+   * Replace changed values with '[MASKED]' (default: true). Password and hidden
+   * inputs are always masked.
+   */
+  maskInputValues?: boolean
+}
+
+export interface MetricThreshold {
+  /** Metric name, glob (`*` wildcard) or RegExp */
+  name: string | RegExp
+  /** Values up to this boundary are rated 'good' */
+  good: number
+  /** Values above this boundary are rated 'poor'; values in between 'needs-improvement' */
+  poor: number
+}
+
+export interface WebVitalsOptions {
+  /** Log metrics to the console */
+  debug?: boolean
+  /**
+   * Load the `web-vitals/attribution` build and attach its diagnostics (LCP element,
+   * CLS shift target, INP interaction breakdown, TTFB phases) as properties
+   */
+  attribution?: boolean
+}
+
+export interface LongTaskOptions {
+  /** Scripts listed in a summary's `worstScripts`, by total duration (default: 5) */
+  maxOffenders?: number
+}
+
 export interface ObservabilityConfig {
   /** Enable console logging in development */
   debug: boolean
   /** Batch size before flush */
   batchSize: number
+  /**
+   * Flush once queued events reach this serialized size, and cap each request body
+   * at it for the built-in exporters (optional, default: 60 000 bytes)
+   */
+  maxBatchBytes?: number
+  /** Gzip request bodies sent by the built-in exporters via fetch (optional) */
+  compression?: boolean
   /** Max time (ms) to hold events before flush */
   flushInterval: number
   /** Telemetry endpoint URL (relative to origin) */
   telemetryEndpoint: string
+  /** Export OTLP/HTTP JSON to an OpenTelemetry Collector instead of `telemetryEndpoint` (optional) */
+  otlp?: OtlpConfig
+  /** Exporters receiving every batch; replaces the `telemetryEndpoint`/`otlp` default (optional) */
+  exporters?: Exporter[]
+  /**
+   * Capture uncaught errors, unhandled rejections and failed script/image/stylesheet
+   * loads as 'error' events (optional, removed by `cleanup()`)
+   */
+  captureGlobalErrors?: boolean
+  /**
+   * Capture clicks, form submits and input changes at the document level, described by
+   * `data-track`, role, accessible name and selector path (optional, stopped by `cleanup()`).
+   * Add properties with `data-track-*` attributes; skip subtrees with `data-track-ignore`.
+   */
+  autocapture?: boolean | AutocaptureConfig
+  /**
+   * Keep a trail of recent events, page views, clicks, fetch calls and console messages,
+   * attached to every error as `properties.breadcrumbs`. Recorded only while analytics consent
+   * is granted and cleared when it is revoked; clicks in `data-track-ignore` subtrees are
+   * skipped (optional, restored by `cleanup()`)
+   */
+  breadcrumbs?: boolean | BreadcrumbConfig
+  /**
+   * Fingerprint errors (`properties.fingerprint`), collapse repeats into one event with a
+   * `count` and rate limit them per fingerprint and overall. Opt-in, since it changes how
+   * many events `trackError` sends (default: disabled)
+   */
+  errorGrouping?: boolean | ErrorGroupingConfig
+  /**
+   * Boundaries used to rate metrics tracked without an explicit rating.
+   * The first threshold whose name matches applies.
+   */
+  thresholds?: MetricThreshold[]
+  /**
+   * Emit a 'budget_violation' event when a metric crosses its `good` threshold: once per
+   * crossing, until an observation is rated good again. Metrics tracked with an explicit
+   * rating are never reported (default: true)
+   */
+  reportBudgetViolations?: boolean
+  /**
+   * Summarize resource timing (phases, sizes, cache hits, third-party origins) once per
+   * page as a 'resources.transfer_size' metric (optional, stopped by `cleanup()`)
+   */
+  trackResources?: boolean | ResourceTimingConfig
+  /**
+   * Emit page views on `history.pushState`/`replaceState`, `popstate` and hash changes
+   * (optional, restored by `cleanup()`). Prefer the router adapters in `./react` when
+   * using React Router or TanStack Router.
+   */
+  trackRoutes?: boolean | RouteTrackingConfig
+  /** Record fetch/XMLHttpRequest calls as client spans (optional, restored by `cleanup()`) */
+  instrumentHttp?: boolean | HttpInstrumentationConfig
+  /** Called after each batch an exporter accepts (optional) */
+  onDeliverySuccess?: (result: DeliveryResult) => void
+  /** Called after each failed export attempt, with the delay before the retry (optional) */
+  onDeliveryFailure?: (failure: DeliveryFailure) => void
+  /**
+   * Elect one tab to batch and send for every open tab of the origin. Other tabs forward
+   * their batches to it, circuit-breaker state is shared, only the leader replays `persistence`
+   * batches, and another tab takes over when the leader closes (optional, stopped by `cleanup()`)
+   */
+  coordinateTabs?: boolean | TabCoordinationConfig
+  /**
+   * Periodically report the instance's own health as `observability.*` metrics: queue size,
+   * sent, dropped by reason, failed attempts and open circuit breakers (optional, stopped
+   * by `cleanup()`)
+   */
+  internalMetrics?: boolean | InternalMetricsConfig
+  /**
+   * Processors run in order on every collected event; any may modify or drop it. An event
+   * whose processor throws is dropped (optional)
+   */
+  eventProcessors?: EventProcessor[]
+  /** Final processor, run after `eventProcessors`; return null to drop the event (optional) */
+  beforeSend?: EventProcessor
+  /**
+   * Redact emails, tokens, card numbers, JWTs and query-string secrets from event names,
+   * properties, page paths and stack traces. Runs after `beforeSend` so nothing unscrubbed is queued
+   * (optional)
+   */
+  scrub?: boolean | ScrubConfig
+  /** Head-based sampling applied as events are collected (optional, defaults to keeping everything) */
+  sampling?: SamplingConfig
+  /**
+   * Store batches that fail to send in IndexedDB (or localStorage) and replay them
+   * on the next page load, each batch by one tab only (optional)
+   */
+  persistence?: boolean | PersistenceConfig
   /** Enable beacon on page unload */
   useBeacon: boolean
-  /** Session storage key for session ID */
+  /** localStorage key for the session shared across tabs */
   sessionKey: string
+  /**
+   * Gate collection on per-category consent (optional; without it every category
+   * is granted)
+   */
+  consent?: ConsentConfig
+  /** Session timeouts and lifecycle events (optional) */
+  session?: SessionConfig
   /** Custom session ID provider (optional) */
   sessionIdProvider?: () => string
   /** Custom page provider (optional) */
   pageProvider?: () => string
+  /** Classify a stack frame's file as application code (optional, defaults to same-origin outside node_modules) */
+  isInAppFrame?: (file: string) => boolean
   /** Custom isDevelopment check (optional) */
   isDevelopmentProvider?: () => boolean
 }
@@ -53,9 +635,57 @@ export interface ObservabilityInstance {
     properties?: Record<string, unknown>
   ) => void
   trackTrace: (name: string, properties?: Record<string, unknown>) => void
+  /** Start a span, parented to the active span unless `options.parent` says otherwise */
+  startSpan: (name: string, options?: SpanOptions) => Span
+  /**
+   * Run `fn` inside a new active span, ending it when `fn` returns or its promise settles.
+   * The span stays active across `await` only where `AsyncContext` is available; otherwise
+   * use `bindContext` for code that runs after the first `await`.
+   */
+  withSpan: <T>(name: string, fn: (span: Span) => T, options?: SpanOptions) => T
+  getActiveSpan: () => Span | undefined
+  /** Wrap a callback so it runs with the currently active span when invoked later */
+  bindContext: <TArgs extends unknown[], TResult>(
+    fn: (...args: TArgs) => TResult
+  ) => (...args: TArgs) => TResult
+  /** Monotonic counter aggregated per attribute set and reported once per flush */
+  counter: (name: string, options?: InstrumentOptions) => Counter
+  /** Counter that may go up and down (e.g. active requests) */
+  upDownCounter: (name: string, options?: InstrumentOptions) => UpDownCounter
+  /** Last-value gauge */
+  gauge: (name: string, options?: InstrumentOptions) => Gauge
+  /** Explicit-bucket histogram */
+  histogram: (name: string, options?: HistogramOptions) => Histogram
+  /** Add a breadcrumb to the trail attached to errors (category defaults to 'manual') */
+  addBreadcrumb: (
+    breadcrumb: Omit<Breadcrumb, 'timestamp' | 'category'> & { category?: BreadcrumbCategory }
+  ) => void
+  /** Rate a value against the configured thresholds (undefined when none matches) */
+  rateMetric: (name: string, value: number) => MetricRating | undefined
   captureException: (error: unknown, context?: Record<string, unknown>) => void
   trackPageView: (path: string, properties?: Record<string, unknown>) => void
+  /**
+   * Report a client-side route change as a 'page_view' carrying the previous route
+   * and time spent on it. Repeated reports of the current path are ignored.
+   */
+  trackRouteChange: (path: string, options?: RouteChangeOptions) => void
   flush: () => void
+  /** Remove listeners and instrumentation, send what is still queued, then shut exporters down */
   cleanup: () => void
+  /** Delivery health: queued, sent and dropped events, failures and circuit breaker state */
+  getStats: () => TelemetryStats
   getSessionId: () => string
+  /**
+   * Stamp every subsequent event with a user ID and optional traits, persisted across reloads
+   * once analytics consent is granted
+   */
+  identify: (userId: string, traits?: Record<string, unknown>) => void
+  /** Forget the identified user and start a new session */
+  resetUser: () => void
+  /**
+   * Record the user's consent choices. Granting releases buffered events;
+   * revoking purges queued events of that category, the stored session and user
+   */
+  setConsent: (choices: Partial<Record<ConsentCategory, boolean>>) => void
+  getConsent: () => ConsentState
 }
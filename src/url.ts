@@ -0,0 +1,68 @@
+/**
+ * URL Utilities
+ *
+ * Helpers for turning concrete URLs into low-cardinality templates and for
+ * matching URLs against user-supplied patterns.
+ */
+
+const UUID_SEGMENT = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const NUMERIC_SEGMENT = /^\d+$/
+const HEX_SEGMENT = /^[0-9a-f]{16,}$/i
+// Long opaque tokens mixing letters and digits (base64url IDs, hashes, slugs with IDs)
+const OPAQUE_SEGMENT = /^(?=.*\d)[\w-]{20,}$/
+
+/**
+ * A URL pattern: strings match as prefixes of the absolute URL, RegExps are tested against it.
+ */
+export type UrlPattern = string | RegExp
+
+/**
+ * Replace identifier-like path segments with `:id`.
+ *
+ * @example
+ * ```ts
+ * normalizePath('/users/123/orders/8f14e45f-ceea-467f-a0e6-3f1b2c5a7d10')
+ * // -> '/users/:id/orders/:id'
+ * ```
+ */
+export function normalizePath(path: string): string {
+  return path
+    .split('/')
+    .map((segment) =>
+      UUID_SEGMENT.test(segment) ||
+      NUMERIC_SEGMENT.test(segment) ||
+      HEX_SEGMENT.test(segment) ||
+      OPAQUE_SEGMENT.test(segment)
+        ? ':id'
+        : segment
+    )
+    .join('/')
+}
+
+/**
+ * Resolve a possibly relative URL against the current page.
+ * Returns undefined when the value cannot be parsed.
+ */
+export function resolveUrl(url: string | URL): URL | undefined {
+  try {
+    const base = typeof window !== 'undefined' ? window.location.href : undefined
+    return new URL(url, base)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Check whether an absolute URL matches any of the given patterns.
+ * String patterns are resolved against the current page first, so relative
+ * endpoints such as `/api/telemetry` work.
+ */
+export function matchesUrl(url: URL, patterns: UrlPattern[]): boolean {
+  return patterns.some((pattern) => {
+    if (pattern instanceof RegExp) {
+      return pattern.test(url.href)
+    }
+    const resolved = resolveUrl(pattern)
+    return resolved !== undefined && url.href.startsWith(resolved.href)
+  })
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest'
+import { reportWebVitals } from './web-vitals'
+import type { ObservabilityInstance } from './types'
+
+type Handler = (metric: Record<string, unknown>) => void
+
+const handlers = vi.hoisted(() => ({
+  standard: new Map<string, (metric: Record<string, unknown>) => void>(),
+  attribution: new Map<string, (metric: Record<string, unknown>) => void>(),
+}))
+
+const registrations = (target: Map<string, Handler>) => ({
+  onCLS: (handler: Handler) => target.set('CLS', handler),
+  onFCP: (handler: Handler) => target.set('FCP', handler),
+  onLCP: (handler: Handler) => target.set('LCP', handler),
+  onTTFB: (handler: Handler) => target.set('TTFB', handler),
+  onINP: (handler: Handler) => target.set('INP', handler),
+})
+
+vi.mock('web-vitals', () => registrations(handlers.standard))
+vi.mock('web-vitals/attribution', () => registrations(handlers.attribution))
+
+describe('reportWebVitals', () => {
+  const createMockObservability = () =>
+    ({ trackMetric: vi.fn() }) as unknown as ObservabilityInstance
+
+  it('reports metrics from the standard build by default', async () => {
+    const obs = createMockObservability()
+    await reportWebVitals(obs)
+
+    handlers.standard.get('LCP')?.({ name: 'LCP', value: 1800, rating: 'good' })
+
+    expect(handlers.attribution.size).toBe(0)
+    expect(obs.trackMetric).toHaveBeenCalledWith('LCP', 1800, 'good', {
+      navigationType: undefined,
+    })
+  })
+
+  it('attaches serializable attribution data when requested', async () => {
+    const obs = createMockObservability()
+    await reportWebVitals(obs, { attribution: true })
+
+    handlers.attribution.get('LCP')?.({
+      name: 'LCP',
+      value: 3100,
+      rating: 'needs-improvement',
+      attribution: {
+        element: 'main > img.hero',
+        url: 'https://cdn.example.com/hero.jpg',
+        timeToFirstByte: 400,
+        resourceLoadDelay: 200,
+        resourceLoadDuration: 1800,
+        elementRenderDelay: 700,
+        lcpEntry: {},
+      },
+    })
+    handlers.attribution.get('INP')?.({
+      name: 'INP',
+      value: 350,
+      rating: 'needs-improvement',
+      attribution: {
+        interactionTarget: 'button#checkout',
+        interactionTargetElement: document.createElement('button'),
+        interactionType: 'pointer',
+        interactionTime: 5000,
+        inputDelay: 20,
+        processingDuration: 250,
+        presentationDelay: 80,
+        loadState: 'complete',
+        processedEventEntries: [{ name: 'pointerup' }, { name: 'click' }],
+      },
+    })
+    handlers.attribution.get('TTFB')?.({
+      name: 'TTFB',
+      value: 600,
+      rating: 'good',
+      attribution: {
+        waitingDuration: 10,
+        cacheDuration: 0,
+        dnsDuration: 50,
+        connectionDuration: 90,
+        requestDuration: 450,
+        navigationEntry: {},
+      },
+    })
+
+    expect(obs.trackMetric).toHaveBeenCalledWith('LCP', 3100, 'needs-improvement', {
+      navigationType: undefined,
+      element: 'main > img.hero',
+      url: 'https://cdn.example.com/hero.jpg',
+      timeToFirstByte: 400,
+      resourceLoadDelay: 200,
+      resourceLoadDuration: 1800,
+      elementRenderDelay: 700,
+    })
+    expect(obs.trackMetric).toHaveBeenCalledWith('INP', 350, 'needs-improvement', {
+      navigationType: undefined,
+      interactionTarget: 'button#checkout',
+      interactionType: 'pointer',
+      interactionTime: 5000,
+      inputDelay: 20,
+      processingDuration: 250,
+      presentationDelay: 80,
+      loadState: 'complete',
+      eventType: 'pointerup',
+    })
+    expect(obs.trackMetric).toHaveBeenCalledWith('TTFB', 600, 'good', {
+      navigationType: undefined,
+      waitingDuration: 10,
+      cacheDuration: 0,
+      dnsDuration: 50,
+      connectionDuration: 90,
+      requestDuration: 450,
+    })
+  })
+
+  it('reports the largest layout shift for CLS', async () => {
+    const obs = createMockObservability()
+    await reportWebVitals(obs, { attribution: true })
+
+    handlers.attribution.get('CLS')?.({
+      name: 'CLS',
+      value: 0.3,
+      rating: 'poor',
+      attribution: {
+        largestShiftTarget: 'div.banner',
+        largestShiftTime: 1200,
+        largestShiftValue: 0.25,
+        largestShiftEntry: {},
+        loadState: 'dom-content-loaded',
+      },
+    })
+
+    expect(obs.trackMetric).toHaveBeenCalledWith('CLS', 0.3, 'poor', {
+      navigationType: undefined,
+      largestShiftTarget: 'div.banner',
+      largestShiftTime: 1200,
+      largestShiftValue: 0.25,
+      loadState: 'dom-content-loaded',
+    })
+  })
+})
@@ -3,14 +3,73 @@
  *
  * Report Core Web Vitals metrics to the observability system.
  * Uses dynamic import to avoid loading web-vitals if not needed.
+ * With `attribution`, the `web-vitals/attribution` build is loaded instead
+ * and its diagnostics are attached as metric properties.
  */
 
-import type { ObservabilityInstance, MetricRating } from './types'
+import type { ObservabilityInstance, MetricRating, WebVitalsOptions } from './types'
 
 interface WebVitalsMetric {
   name: string
   value: number
   rating: MetricRating
+  attribution?: Record<string, unknown>
+}
+
+/**
+ * Serializable diagnostics from a metric's attribution, per metric.
+ * DOM nodes and performance entries are left out.
+ */
+function attributionProperties(metric: WebVitalsMetric): Record<string, unknown> {
+  const attribution = metric.attribution
+  if (!attribution) {
+    return {}
+  }
+
+  const pick = (...keys: string[]): Record<string, unknown> =>
+    Object.fromEntries(keys.map((key) => [key, attribution[key]]))
+
+  switch (metric.name) {
+    case 'LCP':
+      return pick(
+        'element',
+        'url',
+        'timeToFirstByte',
+        'resourceLoadDelay',
+        'resourceLoadDuration',
+        'elementRenderDelay'
+      )
+    case 'CLS':
+      return pick('largestShiftTarget', 'largestShiftTime', 'largestShiftValue', 'loadState')
+    case 'INP': {
+      const [firstEvent] =
+        (attribution.processedEventEntries as PerformanceEntry[] | undefined) ?? []
+      return {
+        ...pick(
+          'interactionTarget',
+          'interactionType',
+          'interactionTime',
+          'inputDelay',
+          'processingDuration',
+          'presentationDelay',
+          'loadState'
+        ),
+        eventType: firstEvent?.name,
+      }
+    }
+    case 'TTFB':
+      return pick(
+        'waitingDuration',
+        'cacheDuration',
+        'dnsDuration',
+        'connectionDuration',
+        'requestDuration'
+      )
+    case 'FCP':
+      return pick('timeToFirstByte', 'firstByteToFCP', 'loadState')
+    default:
+      return {}
+  }
 }
 
 /**
@@ -18,18 +77,29 @@ interface WebVitalsMetric {
  * Call this early in app initialization.
  *
  * @param observability - The observability instance to report metrics to
- * @param debug - Whether to log metrics to console
+ * @param options - Whether to log metrics to console, or reporting options
+ *
+ * @example
+ * ```ts
+ * // Attach LCP element, INP target and phase breakdowns to each metric
+ * reportWebVitals(observability, { attribution: true })
+ * ```
  */
 export async function reportWebVitals(
   observability: ObservabilityInstance,
-  debug = false
+  options: boolean | WebVitalsOptions = false
 ): Promise<void> {
   if (typeof window === 'undefined') {
     return
   }
 
+  const { debug = false, attribution = false } =
+    typeof options === 'boolean' ? { debug: options } : options
+
   try {
-    const { onCLS, onFCP, onLCP, onTTFB, onINP } = await import('web-vitals')
+    const { onCLS, onFCP, onLCP, onTTFB, onINP } = attribution
+      ? await import('web-vitals/attribution')
+      : await import('web-vitals')
 
     const handleMetric = (metric: WebVitalsMetric) => {
       // Get navigation type if available
@@ -42,6 +112,7 @@ export async function reportWebVitals(
 
       observability.trackMetric(metric.name, metric.value, metric.rating, {
         navigationType,
+        ...attributionProperties(metric),
       })
     }
 
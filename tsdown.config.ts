@@ -4,6 +4,7 @@ export default defineConfig({
   entry: {
     index: 'src/index.ts',
     react: 'src/react.ts',
+    node: 'src/node.ts',
   },
   format: ['esm'],
   dts: {
@@ -14,5 +15,5 @@ export default defineConfig({
   treeshake: true,
   clean: true,
   platform: 'browser',
-  external: ['web-vitals'],
+  external: ['web-vitals', 'web-vitals/attribution', 'react', /^node:/],
 });